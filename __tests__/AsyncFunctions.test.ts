@@ -0,0 +1,86 @@
+import { IExecuteFunctions } from 'n8n-workflow';
+
+import { requestAsyncResult } from '../nodes/BrightData/AsyncFunctions';
+import { createRequestBudget, isBudgetError } from '../nodes/BrightData/BudgetFunctions';
+import { classifyFailure } from '../nodes/BrightData/UnlockerFunctions';
+
+describe('AsyncFunctions', () => {
+	describe('requestAsyncResult', () => {
+		const createContext = (responses: Array<() => any>) => {
+			const httpRequestWithAuthentication = jest.fn(async () => responses.shift()!());
+			return {
+				helpers: { httpRequestWithAuthentication },
+				getNode: () => ({ name: 'BrightData' }),
+			} as unknown as IExecuteFunctions;
+		};
+		const body = { zone: 'unlocker', country: 'us', url: 'https://a.com/', format: 'raw' };
+
+		it('should submit the request and poll until the result is ready', async () => {
+			const context = createContext([
+				() => ({ statusCode: 202, headers: { 'x-response-id': 'r1' }, body: '' }),
+				() => ({ statusCode: 202, headers: {}, body: '' }),
+				() => ({ statusCode: 200, headers: {}, body: '<html></html>' }),
+			]);
+
+			const result = await requestAsyncResult.call(context, body, {
+				pollInterval: 1,
+				timeout: 5000,
+			});
+
+			expect(result).toBe('<html></html>');
+			const calls = (context.helpers.httpRequestWithAuthentication as jest.Mock).mock.calls;
+			expect(calls[0][1]).toMatchObject({
+				method: 'POST',
+				url: 'https://api.brightdata.com/unblocker/req',
+				qs: { zone: 'unlocker' },
+				body: { country: 'us', url: 'https://a.com/', format: 'raw' },
+			});
+			expect(calls[2][1]).toMatchObject({
+				method: 'GET',
+				url: 'https://api.brightdata.com/unblocker/get_result',
+				qs: { zone: 'unlocker', response_id: 'r1' },
+			});
+			expect(calls[2][1]).not.toHaveProperty('body');
+		});
+
+		it('should count every poll against the API call budget', async () => {
+			const context = createContext([
+				() => ({ statusCode: 202, headers: { 'x-response-id': 'r1' }, body: '' }),
+				() => ({ statusCode: 202, headers: {}, body: '' }),
+				() => ({ statusCode: 200, headers: {}, body: '<html></html>' }),
+			]);
+			const apiCallBudget = createRequestBudget(1);
+
+			const error = await requestAsyncResult
+				.call(context, body, { pollInterval: 1, timeout: 5000 }, { apiCallBudget })
+				.catch((caught) => caught);
+
+			expect(isBudgetError(error)).toBe(true);
+			expect(apiCallBudget).toEqual({ limit: 1, used: 1 });
+			expect(context.helpers.httpRequestWithAuthentication).toHaveBeenCalledTimes(2);
+		});
+
+		it('should fail once the deadline has passed', async () => {
+			const context = createContext([
+				() => ({ statusCode: 202, headers: { 'x-response-id': 'r1' }, body: '' }),
+				...Array.from({ length: 100 }, () => () => ({ statusCode: 202, headers: {}, body: '' })),
+			]);
+
+			const error = await requestAsyncResult
+				.call(context, body, { pollInterval: 1, timeout: 20 })
+				.catch((caught) => caught);
+
+			expect(error.message).toBe('The result of async request r1 was not ready after 0 seconds');
+			// A new submission would be billed again
+			expect(classifyFailure(error)).toBe('fatal');
+		});
+
+		it('should fail without a response ID', async () => {
+			const context = createContext([() => ({ statusCode: 200, headers: {}, body: '' })]);
+
+			await expect(
+				requestAsyncResult.call(context, body, { pollInterval: 1, timeout: 20 }),
+			).rejects.toThrow('The async request returned no response ID');
+		});
+	});
+});
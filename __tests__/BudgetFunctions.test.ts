@@ -0,0 +1,49 @@
+import { INode } from 'n8n-workflow';
+
+import {
+	consumeRequestBudget,
+	createBudgetError,
+	createRequestBudget,
+	getDatasetRecordsViolation,
+	isApiCallBudgetError,
+	isBudgetError,
+} from '../nodes/BrightData/BudgetFunctions';
+
+describe('BudgetFunctions', () => {
+	describe('consumeRequestBudget', () => {
+		it('should count requests until the limit is reached', () => {
+			const budget = createRequestBudget(2);
+
+			expect([1, 2, 3].map(() => consumeRequestBudget(budget))).toEqual([true, true, false]);
+			expect(budget).toEqual({ limit: 2, used: 2 });
+		});
+
+		it('should not limit requests without a budget', () => {
+			expect(createRequestBudget(0)).toBeUndefined();
+			expect(consumeRequestBudget(undefined)).toBe(true);
+		});
+	});
+
+	describe('createBudgetError', () => {
+		it('should tell the execution-wide limit from the others', () => {
+			const apiCalls = createBudgetError({} as INode, 'No API calls left', 'maxApiCalls');
+			const attempts = createBudgetError({} as INode, 'No attempts left', 'maxCountryAttempts');
+
+			expect([isBudgetError(apiCalls), isApiCallBudgetError(apiCalls)]).toEqual([true, true]);
+			expect([isBudgetError(attempts), isApiCallBudgetError(attempts)]).toEqual([true, false]);
+		});
+	});
+
+	describe('getDatasetRecordsViolation', () => {
+		it('should require a records limit within the budget', () => {
+			expect(getDatasetRecordsViolation(500, 1000)).toBeUndefined();
+			expect(getDatasetRecordsViolation(5000, 0)).toBeUndefined();
+			expect(getDatasetRecordsViolation(5000, 1000)).toBe(
+				'The records limit of 5000 is above the budget of 1000 records',
+			);
+			expect(getDatasetRecordsViolation(0, 1000)).toBe(
+				'The records limit must be set to at most 1000',
+			);
+		});
+	});
+});
@@ -0,0 +1,119 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+
+import {
+	createDirectoryCache,
+	createStaticDataCache,
+	getCacheKey,
+	getEvictedKeys,
+} from '../nodes/BrightData/CacheFunctions';
+
+describe('CacheFunctions', () => {
+	const request = {
+		method: 'GET',
+		url: 'https://a.com/',
+		country: 'us',
+		format: 'raw',
+		dataFormat: '',
+	};
+
+	describe('getCacheKey', () => {
+		it('should depend on every part of the request', () => {
+			const key = getCacheKey(request);
+
+			expect(getCacheKey({ ...request, method: 'get' })).toBe(key);
+			expect(getCacheKey({ ...request, country: 'de' })).not.toBe(key);
+			expect(getCacheKey({ ...request, dataFormat: 'markdown' })).not.toBe(key);
+			expect(getCacheKey({ ...request, body: '{}' })).not.toBe(key);
+		});
+	});
+
+	describe('getEvictedKeys', () => {
+		it('should evict expired entries, then the oldest ones over the size limit', () => {
+			const entries = [
+				{ key: 'expired', storedAt: 0, size: 1 },
+				{ key: 'old', storedAt: 9000, size: 6 },
+				{ key: 'new', storedAt: 9500, size: 6 },
+			];
+
+			expect(getEvictedKeys(entries, { ttl: 5000, maxSize: 10 }, 10000)).toEqual([
+				'old',
+				'expired',
+			]);
+		});
+	});
+
+	describe('createStaticDataCache', () => {
+		it('should return copies of fresh entries only', async () => {
+			const staticData = {};
+			const cache = createStaticDataCache(staticData, { ttl: 60000, maxSize: 1024 });
+			const data = [{ body: '<html></html>', country_code: 'us' }];
+
+			await cache.set('a', data);
+			data[0].body = 'changed';
+			const cached = await cache.get('a');
+
+			expect(cached).toEqual([{ body: '<html></html>', country_code: 'us' }]);
+			cached![0]._cache = 'hit';
+			expect(await cache.get('a')).toEqual([{ body: '<html></html>', country_code: 'us' }]);
+			expect(await cache.get('b')).toBeUndefined();
+
+			const expired = createStaticDataCache(staticData, { ttl: -1, maxSize: 1024 });
+			expect(await expired.get('a')).toBeUndefined();
+		});
+	});
+
+	describe('createDirectoryCache', () => {
+		let directory: string;
+
+		beforeEach(async () => {
+			directory = await fs.mkdtemp(path.join(tmpdir(), 'brightdata-cache-'));
+		});
+
+		afterEach(async () => {
+			await fs.rm(directory, { recursive: true, force: true });
+		});
+
+		it('should store entries as files and respect the size limit', async () => {
+			const cache = createDirectoryCache(path.join(directory, 'cache'), {
+				ttl: 60000,
+				maxSize: 1024,
+			});
+			const keyA = getCacheKey(request);
+			const keyB = getCacheKey({ ...request, country: 'de' });
+
+			await cache.set(keyA, [{ body: 'a' }]);
+			expect(await cache.get(keyA)).toEqual([{ body: 'a' }]);
+
+			await cache.set(keyB, [{ body: 'b'.repeat(2000) }]);
+			expect(await cache.get(keyB)).toBeUndefined();
+			expect(await cache.get(keyA)).toEqual([{ body: 'a' }]);
+		});
+
+		it('should ignore files evicted by another item during the eviction', async () => {
+			const cache = createDirectoryCache(path.join(directory, 'cache'), {
+				ttl: 60000,
+				maxSize: 1024,
+			});
+			const keyA = getCacheKey(request);
+			const keyB = getCacheKey({ ...request, country: 'de' });
+			await cache.set(keyA, [{ body: 'a' }]);
+
+			// The first file listed is removed right before it is read
+			const stat = fs.stat;
+			const statSpy = jest.spyOn(fs, 'stat').mockImplementationOnce(async (file) => {
+				await fs.rm(file);
+				return await stat(file);
+			});
+			try {
+				await cache.set(keyB, [{ body: 'b' }]);
+				expect(statSpy).toHaveBeenCalled();
+			} finally {
+				statSpy.mockRestore();
+			}
+
+			expect((await fs.readdir(path.join(directory, 'cache'))).length).toBe(1);
+		});
+	});
+});
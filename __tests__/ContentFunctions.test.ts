@@ -0,0 +1,60 @@
+import { extractMainContent } from '../nodes/BrightData/ContentFunctions';
+
+describe('ContentFunctions', () => {
+	describe('extractMainContent', () => {
+		const html = `
+			<html>
+				<head>
+					<title>Rivers of Europe | Travel News</title>
+					<meta name="author" content="Jane Doe">
+					<meta property="article:published_time" content="2024-03-01T08:00:00Z">
+				</head>
+				<body>
+					<header><a href="/">Travel News</a></header>
+					<nav><ul><li><a href="/news">News</a></li><li><a href="/guides">Guides</a></li></ul></nav>
+					<div class="cookie-banner">We use cookies to improve your experience on this site.</div>
+					<div id="content">
+						<h1>Rivers of Europe</h1>
+						<p>The Danube flows through ten countries, more than any other river in the world, and links Vienna, Budapest and Belgrade.</p>
+						<h2>Best time to visit</h2>
+						<p>Late spring brings mild weather, long days and fewer crowds along the banks, which makes it ideal for a cruise.</p>
+						<ul>
+							<li>Book early</li>
+							<li>Pack layers</li>
+						</ul>
+						<p>Read the <a href="/guides/danube">full Danube guide</a> before you go, it covers every port.</p>
+					</div>
+					<div class="sidebar"><a href="/a">Related one</a> <a href="/b">Related two</a></div>
+					<footer>Copyright Travel News</footer>
+				</body>
+			</html>`;
+
+		it('should return the article without the page chrome', () => {
+			const content = extractMainContent(html, 'https://news.example.com/europe/rivers');
+
+			expect(content.title).toBe('Rivers of Europe');
+			expect(content.byline).toBe('Jane Doe');
+			expect(content.publishedAt).toBe('2024-03-01T08:00:00Z');
+			expect(content.text).toContain('The Danube flows through ten countries');
+			expect(content.text).not.toMatch(/cookies|Guides|Related|Copyright/);
+			expect(content.markdown).toContain('## Best time to visit');
+			expect(content.markdown).toContain('- Book early\n- Pack layers');
+			expect(content.markdown).toContain(
+				'[full Danube guide](https://news.example.com/guides/danube)',
+			);
+		});
+
+		it('should read the byline and date from JSON-LD', () => {
+			const content = extractMainContent(
+				`<html><head><script type="application/ld+json">
+					{"@type": "NewsArticle", "author": [{"name": "A. Smith"}, {"name": "B. Jones"}], "datePublished": "2024-05-02"}
+				</script></head><body><article><p>Short article.</p></article></body></html>`,
+				'https://a.com/',
+			);
+
+			expect(content.byline).toBe('A. Smith, B. Jones');
+			expect(content.publishedAt).toBe('2024-05-02');
+			expect(content.markdown).toBe('Short article.');
+		});
+	});
+});
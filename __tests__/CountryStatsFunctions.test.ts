@@ -0,0 +1,52 @@
+import {
+	CountryStatsMap,
+	decayCountryStats,
+	formatCountryStats,
+	recordCountryResult,
+	sortCountriesByStats,
+} from '../nodes/BrightData/CountryStatsFunctions';
+
+describe('CountryStatsFunctions', () => {
+	const hour = 3600000;
+
+	it('should halve the counters after one half-life', () => {
+		const decayed = decayCountryStats(
+			{ successes: 4, failures: 2, avgLatency: 100, updatedAt: 0 },
+			24,
+			24 * hour,
+		);
+
+		expect(decayed).toEqual({ successes: 2, failures: 1, avgLatency: 100, updatedAt: 24 * hour });
+	});
+
+	it('should order countries by success rate and keep ties in place', () => {
+		const statsMap: CountryStatsMap = {};
+		recordCountryResult(statsMap, 'us', false, 500, 24, 0);
+		recordCountryResult(statsMap, 'de', true, 300, 24, 0);
+		recordCountryResult(statsMap, 'de', true, 100, 24, 0);
+
+		expect(statsMap.de.avgLatency).toBe(240);
+		expect(sortCountriesByStats(['us', 'gb', 'fr', 'de'], statsMap)).toEqual([
+			'de',
+			'gb',
+			'fr',
+			'us',
+		]);
+	});
+
+	it('should format the statistics for output', () => {
+		const statsMap: CountryStatsMap = {};
+		recordCountryResult(statsMap, 'us', true, 250, 24, 0);
+
+		expect(formatCountryStats(statsMap, 24, 0)).toEqual([
+			{
+				country_code: 'us',
+				success_rate: 0.667,
+				successes: 1,
+				failures: 0,
+				avg_latency_ms: 250,
+				updated_at: new Date(0).toISOString(),
+			},
+		]);
+	});
+});
@@ -0,0 +1,114 @@
+import { crawlSite, parseUrlPatterns } from '../nodes/BrightData/CrawlFunctions';
+
+describe('CrawlFunctions', () => {
+	const site: { [url: string]: string } = {
+		'https://example.com/': `
+			<a href="/products/1">One</a>
+			<a href="/products/2#reviews">Two</a>
+			<a href="/cart">Cart</a>
+			<a href="https://other.com/">Other</a>
+			<a href="mailto:shop@example.com">Mail</a>`,
+		'https://example.com/products/1': '<a href="/products/3">Three</a><a href="/">Home</a>',
+		'https://example.com/products/2': '<a href="/products/4">Four</a>',
+		'https://example.com/products/3': 'Three',
+	};
+
+	const fetchPage = async (url: string) => {
+		if (!(url in site)) {
+			throw new Error('Not found');
+		}
+		return { content: site[url], country: 'us' };
+	};
+
+	describe('parseUrlPatterns', () => {
+		it('should support wildcards and regular expressions', () => {
+			const [wildcard, regex] = parseUrlPatterns('*/products/*\n/\\/p\\/\\d+$/');
+
+			expect(wildcard.test('https://a.com/products/1')).toBe(true);
+			expect(wildcard.test('https://a.com/cart')).toBe(false);
+			expect(regex.test('https://a.com/p/12')).toBe(true);
+		});
+
+		it('should keep commas and drop stateful flags of regular expressions', () => {
+			const patterns = parseUrlPatterns('/\\/p\\/\\d{1,3}$/gi');
+
+			expect(patterns).toHaveLength(1);
+			expect(patterns[0].flags).toBe('i');
+			expect(patterns[0].test('https://a.com/P/12')).toBe(true);
+			expect(patterns[0].test('https://a.com/P/12')).toBe(true);
+		});
+	});
+
+	describe('crawlSite', () => {
+		it('should follow same-host links within the depth and patterns', async () => {
+			const pages = await crawlSite(
+				'https://example.com/',
+				{
+					maxDepth: 1,
+					maxPages: 10,
+					include: [],
+					exclude: parseUrlPatterns('*/cart*'),
+					format: 'html',
+				},
+				fetchPage,
+			);
+
+			expect(pages.map(({ url, depth, referrer }) => ({ url, depth, referrer }))).toEqual([
+				{ url: 'https://example.com/', depth: 0, referrer: null },
+				{ url: 'https://example.com/products/1', depth: 1, referrer: 'https://example.com/' },
+				{ url: 'https://example.com/products/2', depth: 1, referrer: 'https://example.com/' },
+			]);
+		});
+
+		it('should stop at the page limit and report pages that fail', async () => {
+			const pages = await crawlSite(
+				'https://example.com/',
+				{ maxDepth: 3, maxPages: 5, include: [], exclude: [], format: 'html' },
+				fetchPage,
+			);
+
+			expect(pages).toHaveLength(5);
+			expect(pages[3]).toMatchObject({ url: 'https://example.com/cart', error: 'Not found' });
+		});
+
+		it('should keep the fetched pages and skip the rest when told to stop', async () => {
+			let fetched = 0;
+			const pages = await crawlSite(
+				'https://example.com/',
+				{ maxDepth: 3, maxPages: 4, include: [], exclude: [], format: 'html' },
+				async (url) => {
+					if (++fetched > 2) {
+						throw new Error('Out of budget');
+					}
+					return fetchPage(url);
+				},
+				(error) => error.message === 'Out of budget',
+			);
+
+			expect(pages.map(({ url, skipped }) => [url, skipped])).toEqual([
+				['https://example.com/', undefined],
+				['https://example.com/products/1', undefined],
+				['https://example.com/products/2', 'Out of budget'],
+				['https://example.com/cart', 'Out of budget'],
+			]);
+		});
+
+		it('should find links in markdown pages', async () => {
+			const pages = await crawlSite(
+				'https://example.com/docs',
+				{ maxDepth: 1, maxPages: 5, include: [], exclude: [], format: 'markdown' },
+				async (url) => ({
+					content: url.endsWith('/docs')
+						? '[Guide](/docs/guide "Guide") and [Ext](https://b.com)'
+						: '',
+					country: 'us',
+				}),
+			);
+
+			expect(pages.map((page) => page.url)).toEqual([
+				'https://example.com/docs',
+				'https://example.com/docs/guide',
+			]);
+		});
+	});
+});
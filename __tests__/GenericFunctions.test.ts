@@ -0,0 +1,50 @@
+import { runWithConcurrency } from '../nodes/BrightData/GenericFunctions';
+
+describe('GenericFunctions', () => {
+	describe('runWithConcurrency', () => {
+		it('should keep the index order and limit calls in flight', async () => {
+			let inFlight = 0;
+			let maxInFlight = 0;
+
+			const results = await runWithConcurrency(6, 2, async (index) => {
+				inFlight++;
+				maxInFlight = Math.max(maxInFlight, inFlight);
+				await new Promise((resolve) => setTimeout(resolve, (6 - index) * 2));
+				inFlight--;
+				return index * 10;
+			});
+
+			expect(results).toEqual([0, 10, 20, 30, 40, 50]);
+			expect(maxInFlight).toBe(2);
+		});
+
+		it('should reject with the first error', async () => {
+			await expect(
+				runWithConcurrency(3, 3, async (index) => {
+					if (index === 1) {
+						throw new Error('failed');
+					}
+					return index;
+				}),
+			).rejects.toThrow('failed');
+		});
+
+		it('should abort the signal of the calls in flight after the first error', async () => {
+			const signals: AbortSignal[] = [];
+
+			await expect(
+				runWithConcurrency(3, 2, async (index, signal) => {
+					signals[index] = signal;
+					if (index === 0) {
+						throw new Error('failed');
+					}
+					await new Promise((resolve) => setTimeout(resolve, 10));
+					return index;
+				}),
+			).rejects.toThrow('failed');
+
+			expect(signals).toHaveLength(2);
+			expect(signals[1].aborted).toBe(true);
+		});
+	});
+});
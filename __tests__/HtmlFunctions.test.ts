@@ -0,0 +1,127 @@
+import {
+	extractFields,
+	extractMetadata,
+	validateExtractionFields,
+} from '../nodes/BrightData/HtmlFunctions';
+
+describe('HtmlFunctions', () => {
+	const html = `<!DOCTYPE html>
+		<html xmlns="http://www.w3.org/1999/xhtml">
+			<body>
+				<h1 class="title"> Product&nbsp;A </h1>
+				<ul>
+					<li><a href="/a">First</a></li>
+					<li><a href="/b">Second</a>
+				</ul>
+				<img src="a.png">
+			</body>
+		</html>`;
+
+	describe('extractFields', () => {
+		it('should extract css fields', () => {
+			expect(
+				extractFields(html, [
+					{ key: 'title', selectorType: 'css', selector: 'h1.title', returnValue: 'text' },
+					{
+						key: 'links',
+						selectorType: 'css',
+						selector: 'li a',
+						returnValue: 'attribute',
+						attribute: 'href',
+						returnArray: true,
+					},
+					{ key: 'missing', selectorType: 'css', selector: '.price', returnValue: 'text' },
+				]),
+			).toEqual({ title: 'Product A', links: ['/a', '/b'], missing: null });
+		});
+
+		it('should extract xpath fields from non well-formed html', () => {
+			expect(
+				extractFields(html, [
+					{
+						key: 'labels',
+						selectorType: 'xpath',
+						selector: '//li/a',
+						returnValue: 'text',
+						returnArray: true,
+					},
+					{ key: 'image', selectorType: 'xpath', selector: '//img/@src', returnValue: 'text' },
+					{
+						key: 'second',
+						selectorType: 'xpath',
+						selector: '//li[2]/a',
+						returnValue: 'attribute',
+						attribute: 'href',
+					},
+				]),
+			).toEqual({ labels: ['First', 'Second'], image: 'a.png', second: '/b' });
+		});
+	});
+
+	describe('validateExtractionFields', () => {
+		it('should accept valid selectors', () => {
+			expect(() =>
+				validateExtractionFields([
+					{ key: 'title', selectorType: 'css', selector: 'h1.title', returnValue: 'text' },
+					{ key: 'image', selectorType: 'xpath', selector: '//img/@src', returnValue: 'text' },
+				]),
+			).not.toThrow();
+		});
+
+		it('should name the field of an invalid selector', () => {
+			expect(() =>
+				validateExtractionFields([
+					{ key: 'price', selectorType: 'css', selector: 'div[', returnValue: 'text' },
+				]),
+			).toThrow('Selector div[ of field price is not a valid CSS selector');
+			expect(() =>
+				validateExtractionFields([
+					{ key: 'links', selectorType: 'xpath', selector: '//a[', returnValue: 'text' },
+				]),
+			).toThrow('Selector //a[ of field links is not a valid XPath expression');
+		});
+	});
+
+	describe('extractMetadata', () => {
+		it('should return the meta tags, links and JSON-LD blocks of the page', () => {
+			const page = `<html><head>
+				<title> Blue Shoes </title>
+				<meta name="Description" content="Comfortable shoes">
+				<link rel="canonical" href="/shoes/blue">
+				<link rel="alternate" hreflang="de" href="https://example.de/schuhe/blau">
+				<meta property="og:title" content="Blue Shoes">
+				<meta property="og:image" content="https://example.com/1.png">
+				<meta property="og:image" content="https://example.com/2.png">
+				<meta name="twitter:card" content="summary">
+				<script type="application/ld+json">{"@type": "Product", "name": "Blue Shoes"}</script>
+				<script type="application/ld+json">[{"@type": "BreadcrumbList"}]</script>
+				<script type="application/ld+json">{ invalid </script>
+			</head><body></body></html>`;
+
+			expect(extractMetadata(page, 'https://example.com/shoes?color=blue')).toEqual({
+				title: 'Blue Shoes',
+				description: 'Comfortable shoes',
+				canonical: 'https://example.com/shoes/blue',
+				hreflang: [{ lang: 'de', url: 'https://example.de/schuhe/blau' }],
+				open_graph: {
+					title: 'Blue Shoes',
+					image: ['https://example.com/1.png', 'https://example.com/2.png'],
+				},
+				twitter: { card: 'summary' },
+				json_ld: [{ '@type': 'Product', name: 'Blue Shoes' }, { '@type': 'BreadcrumbList' }],
+			});
+		});
+
+		it('should return empty values for a page without metadata', () => {
+			expect(extractMetadata('<p>Hello</p>', 'https://example.com/')).toEqual({
+				title: null,
+				description: null,
+				canonical: null,
+				hreflang: [],
+				open_graph: {},
+				twitter: {},
+				json_ld: [],
+			});
+		});
+	});
+});
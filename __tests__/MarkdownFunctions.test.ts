@@ -0,0 +1,45 @@
+import { chunkMarkdown } from '../nodes/BrightData/MarkdownFunctions';
+
+describe('MarkdownFunctions', () => {
+	describe('chunkMarkdown', () => {
+		it('should split at headings and keep the heading path', () => {
+			const markdown = [
+				'Intro',
+				'# Guide',
+				'Welcome.',
+				'## Install',
+				'```',
+				'# not a heading',
+				'```',
+				'### Linux',
+				'Run it.',
+				'## Usage',
+				'Use it.',
+			].join('\n');
+
+			expect(chunkMarkdown(markdown, 1000).map((chunk) => chunk.headingPath)).toEqual([
+				[],
+				['Guide'],
+				['Guide', 'Install'],
+				['Guide', 'Install', 'Linux'],
+				['Guide', 'Usage'],
+			]);
+		});
+
+		it('should keep chunks within the max size and overlap them', () => {
+			const markdown = `# Long\n\n${'lorem ipsum '.repeat(50)}\n\n${'dolor sit '.repeat(30)}`;
+			const chunks = chunkMarkdown(markdown, 200, 40);
+
+			expect(chunks.length).toBeGreaterThan(3);
+			for (const chunk of chunks) {
+				expect(chunk.content.length).toBeLessThanOrEqual(200);
+				expect(chunk.headingPath).toEqual(['Long']);
+			}
+
+			const overlap = chunks[2].content.split('\n\n')[0];
+			expect(overlap.length).toBeGreaterThan(0);
+			expect(overlap.length).toBeLessThanOrEqual(40);
+			expect(chunks[1].content.endsWith(overlap)).toBe(true);
+		});
+	});
+});
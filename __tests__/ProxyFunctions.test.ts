@@ -0,0 +1,151 @@
+import * as http from 'http';
+import * as net from 'net';
+
+import {
+	ProxyCredentials,
+	buildProxyUsername,
+	openProxyRequest,
+	readResponseBody,
+} from '../nodes/BrightData/ProxyFunctions';
+
+describe('ProxyFunctions', () => {
+	describe('buildProxyUsername', () => {
+		it('should add the targeting flags to the username', () => {
+			expect(
+				buildProxyUsername(
+					{ customerId: 'hl_1234', zone: 'residential' },
+					{ country: 'US', city: 'New York', session: 'abc-123' },
+				),
+			).toBe('brd-customer-hl_1234-zone-residential-country-us-city-newyork-session-abc123');
+			expect(buildProxyUsername({ customerId: 'brd-customer-hl_1234', zone: 'dc' }, {})).toBe(
+				'brd-customer-hl_1234-zone-dc',
+			);
+		});
+
+		it('should reject a city without a country', () => {
+			expect(() =>
+				buildProxyUsername({ customerId: 'hl_1234', zone: 'dc' }, { city: 'paris' }),
+			).toThrow('A city can only be targeted together with a country');
+		});
+	});
+
+	describe('openProxyRequest', () => {
+		let proxy: http.Server;
+		let target: net.Server;
+		let credentials: ProxyCredentials;
+		let received: http.IncomingMessage & { body?: string };
+		let handshake: Buffer | undefined;
+
+		// Stand-in for the super proxy: answers forwarded requests itself and only tunnels
+		// to tunnel.test, where a target records the first bytes it receives
+		beforeAll(async () => {
+			target = net.createServer((socket) =>
+				socket.once('data', (data) => {
+					handshake = data;
+					socket.destroy();
+				}),
+			);
+
+			proxy = http.createServer(async (request, response) => {
+				received = request;
+				received.body = (await readResponseBody(request)).toString();
+
+				if (request.url?.includes('/blocked')) {
+					response.writeHead(502, { 'x-brd-error': 'Target host is blocked' });
+					response.end();
+					return;
+				}
+				response.writeHead(200, { 'Content-Type': 'application/json' });
+				response.end(JSON.stringify({ path: request.url }));
+			});
+			proxy.on('connect', (request, socket: net.Socket) => {
+				if (request.url !== 'tunnel.test:443') {
+					socket.end('HTTP/1.1 407 Proxy Authentication Required\r\nx-brd-error: Bad auth\r\n\r\n');
+					return;
+				}
+				const upstream = net.connect(
+					(target.address() as net.AddressInfo).port,
+					'127.0.0.1',
+					() => {
+						socket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+						upstream.pipe(socket).on('error', () => {});
+						socket.pipe(upstream).on('error', () => {});
+					},
+				);
+			});
+
+			await new Promise<void>((resolve) => target.listen(0, '127.0.0.1', resolve));
+			await new Promise<void>((resolve) => proxy.listen(0, '127.0.0.1', resolve));
+			credentials = {
+				customerId: 'hl_1234',
+				zone: 'dc',
+				password: 'secret',
+				host: '127.0.0.1',
+				port: (proxy.address() as net.AddressInfo).port,
+			};
+		});
+
+		afterAll(async () => {
+			await new Promise((resolve) => proxy.close(resolve));
+			await new Promise((resolve) => target.close(resolve));
+		});
+
+		it('should forward HTTP requests with the proxy authorization', async () => {
+			const response = await openProxyRequest(
+				credentials,
+				{ country: 'de', session: 's1' },
+				{
+					method: 'POST',
+					url: 'http://example.com/items?page=2',
+					headers: { 'X-Test': 'yes' },
+					body: 'a=1',
+					timeout: 5000,
+				},
+			);
+
+			expect(response.statusCode).toBe(200);
+			expect(JSON.parse((await readResponseBody(response)).toString())).toEqual({
+				path: 'http://example.com/items?page=2',
+			});
+			expect(received.method).toBe('POST');
+			expect(received.headers.host).toBe('example.com');
+			expect(received.headers['x-test']).toBe('yes');
+			expect(received.body).toBe('a=1');
+			expect(
+				Buffer.from(received.headers['proxy-authorization']!.split(' ')[1], 'base64').toString(),
+			).toBe('brd-customer-hl_1234-zone-dc-country-de-session-s1:secret');
+		});
+
+		it('should fail when the proxy rejects the request', async () => {
+			await expect(
+				openProxyRequest(
+					credentials,
+					{},
+					{ method: 'GET', url: 'http://example.com/blocked', headers: {}, timeout: 5000 },
+				),
+			).rejects.toThrow('Proxy error: 502 Target host is blocked');
+
+			await expect(
+				openProxyRequest(
+					credentials,
+					{},
+					{ method: 'GET', url: 'https://example.com/', headers: {}, timeout: 5000 },
+				),
+			).rejects.toThrow('Proxy refused the tunnel: 407 Bad auth');
+		});
+
+		it('should send HTTPS requests through the tunnel', async () => {
+			await expect(
+				openProxyRequest(
+					credentials,
+					{},
+					{ method: 'GET', url: 'https://tunnel.test/', headers: {}, timeout: 5000 },
+				),
+			).rejects.toThrow();
+
+			// A TLS handshake record naming the target host
+			expect(handshake?.[0]).toBe(0x16);
+			expect(handshake?.includes('tunnel.test')).toBe(true);
+		});
+	});
+});
@@ -0,0 +1,166 @@
+import {
+	buildGoogleSearchParams,
+	buildSearchUrl,
+	collectUniqueResults,
+	normalizeSerpResponse,
+	splitOrganicResults,
+} from '../nodes/BrightData/SerpFunctions';
+
+describe('SerpFunctions', () => {
+	describe('buildSearchUrl', () => {
+		it('should build paginated urls for every engine', () => {
+			expect(buildSearchUrl('google', 'a b', 2)).toBe(
+				'https://www.google.com/search?q=a%20b&start=10&brd_json=1',
+			);
+			expect(buildSearchUrl('bing', 'a b', 2)).toBe(
+				'https://www.bing.com/search?q=a%20b&first=11&brd_json=1',
+			);
+			expect(buildSearchUrl('duckduckgo', 'a b', 1)).toBe(
+				'https://duckduckgo.com/?q=a%20b&s=0&brd_json=1',
+			);
+			expect(buildSearchUrl('yandex', 'a b', 3)).toBe(
+				'https://yandex.com/search/?text=a%20b&p=2&brd_json=1',
+			);
+			expect(buildSearchUrl('baidu', 'a b', 2)).toBe(
+				'https://www.baidu.com/s?wd=a%20b&pn=10&brd_json=1',
+			);
+		});
+	});
+
+	describe('buildGoogleSearchParams', () => {
+		it('should map typed options to google url parameters', () => {
+			const params = buildGoogleSearchParams({
+				language: 'de',
+				geoLocation: 'at',
+				resultsPerPage: 50,
+				timeRange: 'custom',
+				dateFrom: '2024-01-05T00:00:00',
+				dateTo: '2024-02-10T00:00:00',
+				safeSearch: true,
+				device: 'mobile',
+				searchType: 'news',
+			});
+
+			expect(params).toEqual({
+				hl: 'de',
+				gl: 'at',
+				num: 50,
+				tbs: 'cdr:1,cd_min:1/5/2024,cd_max:2/10/2024',
+				safe: 'active',
+				brd_mobile: 1,
+				tbm: 'nws',
+			});
+			expect(buildSearchUrl('google', 'q', 3, params)).toContain('start=100&hl=de');
+		});
+	});
+
+	describe('normalizeSerpResponse', () => {
+		it('should normalize organic results from a JSON string payload', () => {
+			const serp = normalizeSerpResponse(
+				'bing',
+				JSON.stringify({
+					organic: [{ url: 'https://example.com/page', title: 'Example', snippet: 'Text' }],
+				}),
+				'example',
+				1,
+			);
+
+			expect(serp.engine).toBe('bing');
+			expect(serp.organic).toEqual([
+				{
+					url: 'https://example.com/page',
+					snippet: 'Text',
+					rank: 1,
+					title: 'Example',
+					link: 'https://example.com/page',
+					display_link: 'example.com',
+					description: 'Text',
+				},
+			]);
+		});
+
+		it('should keep the engine-specific fields of organic results', () => {
+			const serp = normalizeSerpResponse(
+				'google',
+				{
+					organic: [
+						{
+							link: 'https://a.com',
+							title: 'A',
+							global_rank: 3,
+							extensions: [{ type: 'site_link', text: 'Docs' }],
+						},
+					],
+				},
+				'a',
+				1,
+			);
+
+			expect(serp.organic).toEqual([
+				expect.objectContaining({
+					rank: 1,
+					link: 'https://a.com',
+					global_rank: 3,
+					extensions: [{ type: 'site_link', text: 'Docs' }],
+				}),
+			]);
+		});
+
+		it('should keep unparsed payloads as body', () => {
+			const serp = normalizeSerpResponse('baidu', '<html></html>', 'example', 1);
+
+			expect(serp.organic).toEqual([]);
+			expect(serp.body).toBe('<html></html>');
+		});
+	});
+
+	describe('splitOrganicResults', () => {
+		it('should return one entry per organic result', () => {
+			const serp = normalizeSerpResponse(
+				'google',
+				{ organic: [{ link: 'https://a.com', title: 'A', description: 'First', rank: 1 }] },
+				'query',
+				2,
+			);
+			serp.country_code = 'de';
+
+			expect(splitOrganicResults(serp)).toEqual([
+				{
+					rank: 1,
+					title: 'A',
+					link: 'https://a.com',
+					display_link: 'a.com',
+					snippet: 'First',
+					engine: 'google',
+					query: 'query',
+					page: 2,
+					country_code: 'de',
+				},
+			]);
+		});
+	});
+
+	describe('collectUniqueResults', () => {
+		it('should drop links seen on previous pages and keep the absolute rank', () => {
+			const seenLinks = new Set<string>();
+			const first = normalizeSerpResponse(
+				'google',
+				{ organic: [{ link: 'https://a.com/' }, { link: 'https://b.com' }] },
+				'query',
+				1,
+			);
+			const second = normalizeSerpResponse(
+				'google',
+				{ organic: [{ link: 'https://a.com' }, { link: 'https://c.com' }] },
+				'query',
+				2,
+			);
+
+			expect(collectUniqueResults(first, seenLinks, 0).map((r) => r.rank)).toEqual([1, 2]);
+
+			const unique = collectUniqueResults(second, seenLinks, 2);
+			expect(unique).toHaveLength(1);
+			expect(unique[0]).toMatchObject({ link: 'https://c.com', rank: 4, page: 2 });
+		});
+	});
+});
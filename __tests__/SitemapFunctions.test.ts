@@ -0,0 +1,151 @@
+import { gzipSync } from 'zlib';
+
+import { parseUrlPatterns } from '../nodes/BrightData/CrawlFunctions';
+import {
+	collectSitemapUrls,
+	decodeSitemapContent,
+	parseRobotsSitemaps,
+} from '../nodes/BrightData/SitemapFunctions';
+
+describe('SitemapFunctions', () => {
+	const sitemaps: { [url: string]: string } = {
+		'https://example.com/sitemap_index.xml': `<?xml version="1.0" encoding="UTF-8"?>
+			<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+				<sitemap><loc>https://example.com/sitemap-products.xml.gz</loc></sitemap>
+				<sitemap><loc>https://example.com/sitemap-blog.xml</loc></sitemap>
+			</sitemapindex>`,
+		'https://example.com/sitemap-products.xml.gz': `<?xml version="1.0" encoding="UTF-8"?>
+			<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+				<url><loc>https://example.com/products/1</loc><lastmod>2024-05-01</lastmod></url>
+				<url><loc>https://example.com/products/2</loc><lastmod>2023-01-01</lastmod></url>
+				<url><loc>https://example.com/cart</loc></url>
+			</urlset>`,
+		'https://example.com/sitemap-blog.xml': `<?xml version="1.0" encoding="UTF-8"?>
+			<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+				<url><loc>https://example.com/blog/a</loc><priority>0.5</priority></url>
+				<url><loc>https://example.com/products/1</loc></url>
+			</urlset>`,
+	};
+
+	const fetchSitemap = async (url: string) => {
+		if (!(url in sitemaps)) {
+			throw new Error('Not found');
+		}
+		return url.endsWith('.gz')
+			? decodeSitemapContent(gzipSync(sitemaps[url]))
+			: decodeSitemapContent(Buffer.from(sitemaps[url]));
+	};
+
+	describe('parseRobotsSitemaps', () => {
+		it('should return the unique absolute sitemap URLs', () => {
+			const robots = [
+				'User-agent: *',
+				'Disallow: /cart',
+				'Sitemap: https://example.com/sitemap_index.xml',
+				'sitemap: /sitemap_index.xml',
+				'Sitemap: /news.xml',
+			].join('\r\n');
+
+			expect(parseRobotsSitemaps(robots, 'https://example.com/robots.txt')).toEqual([
+				'https://example.com/sitemap_index.xml',
+				'https://example.com/news.xml',
+			]);
+		});
+	});
+
+	describe('collectSitemapUrls', () => {
+		it('should expand sitemap indexes and gzipped sitemaps', async () => {
+			const { urls, failures } = await collectSitemapUrls(
+				['https://example.com/sitemap_index.xml'],
+				{ maxUrls: 10, include: [], exclude: parseUrlPatterns('*/cart') },
+				fetchSitemap,
+			);
+
+			expect(urls).toEqual([
+				{
+					url: 'https://example.com/products/1',
+					lastmod: '2024-05-01',
+					sitemap: 'https://example.com/sitemap-products.xml.gz',
+				},
+				{
+					url: 'https://example.com/products/2',
+					lastmod: '2023-01-01',
+					sitemap: 'https://example.com/sitemap-products.xml.gz',
+				},
+				{
+					url: 'https://example.com/blog/a',
+					priority: '0.5',
+					sitemap: 'https://example.com/sitemap-blog.xml',
+				},
+			]);
+			expect(failures).toEqual([]);
+		});
+
+		it('should filter by lastmod and stop at the max number of URLs', async () => {
+			const { urls } = await collectSitemapUrls(
+				['https://example.com/sitemap_index.xml'],
+				{ maxUrls: 2, include: [], exclude: [], modifiedAfter: '2024-01-01' },
+				fetchSitemap,
+			);
+
+			expect(urls.map(({ url }) => url)).toEqual([
+				'https://example.com/products/1',
+				'https://example.com/cart',
+			]);
+		});
+
+		it('should keep going when a child sitemap fails', async () => {
+			const { urls, failures } = await collectSitemapUrls(
+				['https://example.com/sitemap_index.xml'],
+				{ maxUrls: 10, include: [], exclude: [] },
+				async (url) => {
+					if (url.endsWith('.gz')) {
+						throw new Error('Target responded with status 500');
+					}
+					return await fetchSitemap(url);
+				},
+			);
+
+			expect(urls.map(({ url }) => url)).toEqual([
+				'https://example.com/blog/a',
+				'https://example.com/products/1',
+			]);
+			expect(failures).toEqual([
+				{
+					sitemap: 'https://example.com/sitemap-products.xml.gz',
+					error: 'Target responded with status 500',
+				},
+			]);
+		});
+
+		it('should fail when the root sitemap fails', async () => {
+			await expect(
+				collectSitemapUrls(
+					['https://example.com/missing.xml'],
+					{ maxUrls: 10, include: [], exclude: [] },
+					fetchSitemap,
+				),
+			).rejects.toThrow('Not found');
+		});
+
+		it('should skip the sitemaps left once stopped', async () => {
+			const { urls, failures } = await collectSitemapUrls(
+				['https://example.com/sitemap_index.xml'],
+				{ maxUrls: 10, include: [], exclude: [] },
+				async (url) => {
+					if (url.endsWith('.gz')) {
+						throw new Error('Reached the limit');
+					}
+					return await fetchSitemap(url);
+				},
+				(error) => error.message === 'Reached the limit',
+			);
+
+			expect(urls).toEqual([]);
+			expect(failures).toEqual([
+				{ sitemap: 'https://example.com/sitemap-products.xml.gz', skipped: 'Reached the limit' },
+				{ sitemap: 'https://example.com/sitemap-blog.xml', skipped: 'Reached the limit' },
+			]);
+		});
+	});
+});
@@ -0,0 +1,57 @@
+import { extractTable } from '../nodes/BrightData/TableFunctions';
+
+describe('TableFunctions', () => {
+	describe('extractTable', () => {
+		const html = `
+			<table id="layout"><tr><td>
+				<table class="ranking">
+					<thead>
+						<tr><th rowspan="2">Name</th><th colspan="2">Price</th></tr>
+						<tr><th>Min</th><th>Max</th></tr>
+					</thead>
+					<tbody>
+						<tr><td>Widget</td><td>1.00</td><td>2.50</td></tr>
+						<tr><td>Gadget</td><td colspan="2">3.00</td></tr>
+						<tr><td></td><td></td><td></td></tr>
+					</tbody>
+				</table>
+			</td></tr></table>
+			<table class="stats">
+				<tr><th>Year</th><th>Region</th><th>Sales</th></tr>
+				<tr><td rowspan="2">2023</td><td>EU</td><td>10</td></tr>
+				<tr><td>US</td><td>12</td></tr>
+			</table>`;
+
+		it('should key rows by the stacked header names and resolve spans', () => {
+			expect(extractTable(html)).toEqual([
+				{ Name: 'Widget', 'Price Min': '1.00', 'Price Max': '2.50' },
+				{ Name: 'Gadget', 'Price Min': '3.00', 'Price Max': '3.00' },
+			]);
+		});
+
+		it('should pick a table by index or selector', () => {
+			const rows = [
+				{ Year: '2023', Region: 'EU', Sales: '10' },
+				{ Year: '2023', Region: 'US', Sales: '12' },
+			];
+
+			expect(extractTable(html, { tableIndex: 1 })).toEqual(rows);
+			expect(extractTable(html, { tableSelector: '.stats' })).toEqual(rows);
+		});
+
+		it('should name columns without a header by position', () => {
+			expect(extractTable(html, { tableSelector: '.stats', headerRows: 0 })[0]).toEqual({
+				'Column 1': 'Year',
+				'Column 2': 'Region',
+				'Column 3': 'Sales',
+			});
+		});
+
+		it('should fail when no table matches', () => {
+			expect(() => extractTable(html, { tableIndex: 5 })).toThrow(
+				'Table index 5 is out of range, the page has 2 matching tables',
+			);
+			expect(() => extractTable('<p>No tables</p>')).toThrow('No table found on the page');
+		});
+	});
+});
@@ -0,0 +1,384 @@
+import { IDataObject, IExecuteFunctions, INode } from 'n8n-workflow';
+
+import { createRequestBudget, isBudgetError } from '../nodes/BrightData/BudgetFunctions';
+import {
+	applyTargetBody,
+	buildTargetHeaders,
+	buildUnblockerHeaders,
+	classifyFailure,
+	createRejectedResponseError,
+	detectBlockedResponse,
+	getCountriesToTry,
+	getCountryMemoryKey,
+	getFileMimeType,
+	getFileName,
+	getWorkingCountry,
+	loadWorkingCountries,
+	getRetryDelay,
+	parseBlockDetectionRules,
+	parseCountryList,
+	requestWithCountryRotation,
+} from '../nodes/BrightData/UnlockerFunctions';
+
+describe('UnlockerFunctions', () => {
+	describe('getCountriesToTry', () => {
+		it('should try the working country first and the additional countries last', () => {
+			const countries = getCountriesToTry(
+				{
+					usePersistence: false,
+					staticData: {},
+					workingCountries: { '*': { country: 'de', updatedAt: Date.now() } },
+					memoryTtl: 0,
+				},
+				{ primaryCountry: 'us', additionalCountries: parseCountryList('gb, de;fr') },
+			);
+
+			expect(countries).toEqual(['de', 'us', 'gb', 'fr']);
+		});
+	});
+
+	describe('country memory', () => {
+		it('should key the remembered country by hostname or group', () => {
+			expect(getCountryMemoryKey('hostname', 'https://shop.example.com/p/1', '')).toBe(
+				'shop.example.com',
+			);
+			expect(getCountryMemoryKey('group', 'https://example.com', 'retailer-a')).toBe('retailer-a');
+			expect(getCountryMemoryKey('global', 'https://example.com', '')).toBe('*');
+		});
+
+		it('should migrate the single remembered country of older versions', () => {
+			const staticData = { lastWorkingCountry: 'fr' };
+			const workingCountries = loadWorkingCountries(staticData, true);
+
+			expect(workingCountries['*'].country).toBe('fr');
+			expect(staticData).toEqual({ workingCountries });
+		});
+
+		it('should forget countries older than the ttl', () => {
+			const state = {
+				usePersistence: true,
+				staticData: {},
+				workingCountries: {
+					'a.com': { country: 'de', updatedAt: Date.now() - 2 * 3600000 },
+					'b.com': { country: 'us', updatedAt: Date.now() },
+				},
+				memoryTtl: 1,
+			};
+
+			expect(getWorkingCountry(state, 'a.com')).toBeUndefined();
+			expect(getWorkingCountry(state, 'b.com')).toBe('us');
+			expect(Object.keys(state.workingCountries)).toEqual(['b.com']);
+		});
+	});
+
+	describe('buildTargetHeaders', () => {
+		it('should merge cookies into the cookie header', () => {
+			const headers = buildTargetHeaders(
+				{ parameters: [{ name: 'cookie', value: 'a=1' }] },
+				{ parameters: [{ name: 'b', value: '2' }] },
+			);
+
+			expect(headers).toEqual({ cookie: 'a=1; b=2' });
+		});
+	});
+
+	describe('applyTargetBody', () => {
+		it('should encode form fields and set the content type', () => {
+			const headers = {};
+			const body = applyTargetBody(headers, 'form', {
+				parameters: [{ name: 'q', value: 'a b' }],
+			});
+
+			expect(body).toBe('q=a+b');
+			expect(headers).toEqual({ 'Content-Type': 'application/x-www-form-urlencoded' });
+		});
+
+		it('should keep a user provided content type', () => {
+			const headers = { 'content-type': 'application/vnd.api+json' };
+			applyTargetBody(headers, 'json', { a: 1 });
+
+			expect(headers).toEqual({ 'content-type': 'application/vnd.api+json' });
+		});
+
+		it('should reject invalid json', () => {
+			expect(() => applyTargetBody({}, 'json', '{a:')).toThrow();
+		});
+	});
+
+	describe('buildUnblockerHeaders', () => {
+		it('should set the control headers of the enabled options', () => {
+			expect(
+				buildUnblockerHeaders({
+					renderJs: true,
+					expectElement: '.price',
+					device: 'mobile',
+					includeResponseHeaders: true,
+				}),
+			).toEqual({
+				'x-unblock-render': 'true',
+				'x-unblock-expect': '{"element":".price"}',
+				'x-unblock-device': 'mobile',
+			});
+			expect(buildUnblockerHeaders({ renderJs: false, expectText: '' })).toEqual({});
+		});
+	});
+
+	describe('classifyFailure', () => {
+		it('should retry rate limits, server errors and timeouts', () => {
+			expect(classifyFailure({ httpCode: '429' })).toBe('transient');
+			expect(classifyFailure({ response: { status: 502 } })).toBe('transient');
+			expect(classifyFailure({ code: 'ETIMEDOUT' })).toBe('transient');
+		});
+
+		it('should rotate on geo blocking and give up on other API errors', () => {
+			expect(classifyFailure({ httpCode: '403' })).toBe('blocked');
+			expect(
+				classifyFailure(createRejectedResponseError({} as INode, 'Parsed content is empty')),
+			).toBe('blocked');
+			expect(classifyFailure({ httpCode: '401' })).toBe('fatal');
+		});
+
+		it('should give up on errors that are not caused by the response', () => {
+			expect(
+				classifyFailure(new TypeError("Cannot read properties of undefined (reading 'body')")),
+			).toBe('fatal');
+			expect(classifyFailure(new SyntaxError('Invalid regular expression'))).toBe('fatal');
+		});
+	});
+
+	describe('getRetryDelay', () => {
+		const retry = { maxRetries: 3, baseDelay: 1000, maxDelay: 5000 };
+
+		it('should back off exponentially up to the max delay', () => {
+			expect(getRetryDelay(1, retry)).toBeGreaterThanOrEqual(1000);
+			expect(getRetryDelay(1, retry)).toBeLessThanOrEqual(2000);
+			expect(getRetryDelay(10, retry)).toBeLessThanOrEqual(5000);
+		});
+
+		it('should respect Retry-After', () => {
+			const error = { response: { status: 429, headers: { 'retry-after': '7' } } };
+			expect(getRetryDelay(0, retry, error)).toBe(7000);
+		});
+	});
+
+	describe('detectBlockedResponse', () => {
+		const html = '<html><body><div id="captcha">Please verify you are human</div></body></html>';
+
+		it('should pass responses that match every rule', () => {
+			expect(
+				detectBlockedResponse(
+					html,
+					200,
+					parseBlockDetectionRules({
+						blockedStatusCodes: '403, 503',
+						requiredText: 'verify',
+						requiredSelector: '#captcha',
+					}),
+				),
+			).toBeUndefined();
+		});
+
+		it('should report the first failing rule', () => {
+			expect(
+				detectBlockedResponse(html, 403, parseBlockDetectionRules({ blockedStatusCodes: '403' })),
+			).toBe('Target responded with status 403');
+			expect(
+				detectBlockedResponse(
+					html,
+					200,
+					parseBlockDetectionRules({ forbiddenPattern: '/CAPTCHA/i' }),
+				),
+			).toBe('Content matches /CAPTCHA/i');
+			expect(
+				detectBlockedResponse(
+					html,
+					200,
+					parseBlockDetectionRules({ requiredSelector: '#product' }),
+				),
+			).toBe('Content has no element matching #product');
+			expect(
+				detectBlockedResponse(html, 200, parseBlockDetectionRules({ minContentLength: 1000 })),
+			).toBe('Content is shorter than 1000 characters');
+		});
+	});
+
+	describe('parseBlockDetectionRules', () => {
+		it('should reject invalid patterns and selectors', () => {
+			expect(() => parseBlockDetectionRules({ forbiddenPattern: '(unclosed' })).toThrow(
+				'Forbidden Pattern (unclosed is not a valid regular expression',
+			);
+			expect(() => parseBlockDetectionRules({ requiredSelector: 'div[' })).toThrow(
+				'Required Selector div[ is not a valid CSS selector',
+			);
+		});
+	});
+
+	describe('file responses', () => {
+		it('should take the file name from the headers or the url', () => {
+			expect(
+				getFileName(
+					{ 'Content-Disposition': "attachment; filename*=UTF-8''r%C3%A9sum%C3%A9.pdf" },
+					'https://a.com/x',
+				),
+			).toBe('résumé.pdf');
+			expect(
+				getFileName({ 'content-disposition': 'inline; filename="report.pdf"' }, 'https://a.com/x'),
+			).toBe('report.pdf');
+			expect(getFileName({}, 'https://a.com/files/logo%201.png?v=2')).toBe('logo 1.png');
+			expect(getFileName({}, 'https://a.com/')).toBeUndefined();
+		});
+
+		it('should strip parameters from the content type', () => {
+			expect(getFileMimeType({ 'content-type': 'application/pdf; charset=binary' })).toBe(
+				'application/pdf',
+			);
+			expect(getFileMimeType({})).toBeUndefined();
+		});
+	});
+
+	describe('requestWithCountryRotation', () => {
+		const createContext = (responses: Array<() => any>) => {
+			const httpRequestWithAuthentication = jest.fn(async () => responses.shift()!());
+			return {
+				helpers: { httpRequestWithAuthentication },
+				getNode: () => ({ name: 'BrightData' }),
+			} as unknown as IExecuteFunctions;
+		};
+
+		it('should rotate on blocked responses and log every attempt', async () => {
+			const context = createContext([
+				() => {
+					throw { httpCode: '403', message: 'Forbidden' };
+				},
+				() => 'content',
+			]);
+			const state = { usePersistence: false, staticData: {}, workingCountries: {}, memoryTtl: 0 };
+			const attempts: IDataObject[] = [];
+
+			const result = await requestWithCountryRotation.call(
+				context,
+				state,
+				{ primaryCountry: 'us', additionalCountries: ['de'], memoryKey: 'a.com', attempts },
+				(country) => ({ country }),
+				(responseData, country) => `${responseData} from ${country}`,
+			);
+
+			expect(result).toBe('content from de');
+			expect(state.workingCountries).toEqual({
+				'a.com': expect.objectContaining({ country: 'de' }),
+			});
+			expect(attempts).toEqual([
+				expect.objectContaining({
+					country: 'us',
+					status: 403,
+					success: false,
+					reason: 'Forbidden',
+				}),
+				expect.objectContaining({ country: 'de', status: null, success: true, bytes: 7 }),
+			]);
+		});
+
+		it('should log the status of the target when the response tells it', async () => {
+			const context = createContext([
+				() => ({ status_code: 201, body: 'content' }),
+				() => ({ statusCode: 206, headers: {}, body: Buffer.from('content') }),
+			]);
+			const state = { usePersistence: false, staticData: {}, workingCountries: {}, memoryTtl: 0 };
+			const attempts: IDataObject[] = [];
+
+			await requestWithCountryRotation.call(
+				context,
+				state,
+				{ primaryCountry: 'us', additionalCountries: [], attempts },
+				(country) => ({ country }),
+				(responseData) => responseData,
+			);
+			await requestWithCountryRotation.call(
+				context,
+				state,
+				{
+					primaryCountry: 'us',
+					additionalCountries: [],
+					attempts,
+					requestOptions: { returnFullResponse: true },
+				},
+				(country) => ({ country }),
+				(responseData) => responseData,
+			);
+
+			expect(attempts.map(({ status }) => status)).toEqual([201, 206]);
+		});
+
+		it('should not rotate on errors that are not caused by the country', async () => {
+			const context = createContext([
+				() => {
+					throw { httpCode: '401', message: 'Unauthorized' };
+				},
+				() => 'content',
+			]);
+			const state = { usePersistence: false, staticData: {}, workingCountries: {}, memoryTtl: 0 };
+
+			await expect(
+				requestWithCountryRotation.call(
+					context,
+					state,
+					{ primaryCountry: 'us', additionalCountries: ['de'] },
+					(country) => ({ country }),
+					(responseData) => responseData,
+				),
+			).rejects.toMatchObject({ message: 'Unauthorized' });
+		});
+
+		it('should not send a request once the signal is aborted', async () => {
+			const context = createContext([() => 'content']);
+			const controller = new AbortController();
+			controller.abort();
+
+			await expect(
+				requestWithCountryRotation.call(
+					context,
+					{ usePersistence: false, staticData: {}, workingCountries: {}, memoryTtl: 0 },
+					{ primaryCountry: 'us', additionalCountries: ['de'], signal: controller.signal },
+					(country) => ({ country }),
+					(responseData) => responseData,
+				),
+			).rejects.toThrow('Stopped because another item failed');
+			expect(context.helpers.httpRequestWithAuthentication).not.toHaveBeenCalled();
+		});
+
+		it('should stop without rotating once the request budget is spent', async () => {
+			const context = createContext([
+				() => {
+					throw { httpCode: '403', message: 'Forbidden' };
+				},
+				() => 'content',
+			]);
+			const state = {
+				usePersistence: false,
+				staticData: {},
+				workingCountries: {},
+				memoryTtl: 0,
+				apiCallBudget: createRequestBudget(10),
+			};
+
+			const error = await requestWithCountryRotation
+				.call(
+					context,
+					state,
+					{
+						primaryCountry: 'us',
+						additionalCountries: ['de'],
+						maxAttempts: 1,
+					},
+					(country) => ({ country }),
+					(responseData) => responseData,
+				)
+				.catch((caught) => caught);
+
+			expect(isBudgetError(error)).toBe(true);
+			expect(error.message).toBe('Reached the limit of 1 attempts for this request');
+			expect(context.helpers.httpRequestWithAuthentication).toHaveBeenCalledTimes(1);
+			expect(state.apiCallBudget).toEqual({ limit: 10, used: 1 });
+		});
+	});
+});
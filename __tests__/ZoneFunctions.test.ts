@@ -0,0 +1,31 @@
+import { formatZoneResults, getZoneTypeError } from '../nodes/BrightData/ZoneFunctions';
+
+describe('ZoneFunctions', () => {
+	const zones = [
+		{ name: 'n8n_unlocker', type: 'unblocker' },
+		{ name: 'n8n_serp', type: 'serp' },
+		{ name: 'residential', type: 'res_rotating' },
+	];
+
+	describe('formatZoneResults', () => {
+		it('should only list the zones supported by the operation', () => {
+			expect(formatZoneResults(zones, 'WebSearch')).toEqual([
+				{ name: 'n8n_serp (serp)', value: 'n8n_serp', type: 'serp' },
+			]);
+			expect(formatZoneResults(zones, 'request').map(({ value }) => value)).toEqual([
+				'n8n_unlocker',
+			]);
+			expect(formatZoneResults(zones)).toHaveLength(3);
+		});
+	});
+
+	describe('getZoneTypeError', () => {
+		it('should explain which zone type the operation needs', () => {
+			expect(getZoneTypeError('WebSearch', 'n8n_unlocker', 'unblocker')).toBe(
+				'Zone "n8n_unlocker" has type unblocker, but Web Search needs a zone of type serp',
+			);
+			expect(getZoneTypeError('request', 'n8n_unlocker', 'unblocker')).toBeUndefined();
+			expect(getZoneTypeError('request', 'unknown_zone', undefined)).toBeUndefined();
+		});
+	});
+});
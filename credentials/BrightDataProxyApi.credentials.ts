@@ -0,0 +1,47 @@
+import { ICredentialType, INodeProperties } from 'n8n-workflow';
+
+export class BrightDataProxyApi implements ICredentialType {
+	name = 'brightdataProxyApi';
+	displayName = 'BrightData Proxy API';
+	documentationUrl = 'https://docs.brightdata.com/';
+	properties: INodeProperties[] = [
+		{
+			displayName: 'Customer ID',
+			name: 'customerId',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g. hl_1a2b3c4d',
+			required: true,
+		},
+		{
+			displayName: 'Zone',
+			name: 'zone',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g. residential_proxy1',
+			required: true,
+		},
+		{
+			displayName: 'Zone Password',
+			name: 'password',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			default: '',
+			required: true,
+		},
+		{
+			displayName: 'Host',
+			name: 'host',
+			type: 'string',
+			default: 'brd.superproxy.io',
+		},
+		{
+			displayName: 'Port',
+			name: 'port',
+			type: 'number',
+			default: 33335,
+		},
+	];
+}
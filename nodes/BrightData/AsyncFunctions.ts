@@ -0,0 +1,89 @@
+import { IDataObject, IExecuteFunctions, NodeOperationError, sleep } from 'n8n-workflow';
+
+import { RequestBudget, consumeRequestBudget, createBudgetError } from './BudgetFunctions';
+import { brightdataApiRequest } from './GenericFunctions';
+
+export type AsyncPollingOptions = {
+	// Both in milliseconds
+	pollInterval: number;
+	timeout: number;
+};
+
+export type AsyncRequestOptions = {
+	// Extra `httpRequest` options of the result request
+	requestOptions?: IDataObject;
+	// Every poll is an API call of its own
+	apiCallBudget?: RequestBudget;
+	signal?: AbortSignal;
+};
+
+// Statuses of `/unblocker/get_result` while the page is still being fetched
+const PENDING_STATUSES = [102, 202];
+
+/**
+ * Submits a `/request` body to the async unblocker and polls for its result until the deadline.
+ * The worker is free while waiting since polls are spaced out with `sleep`.
+ * Resolves with what the synchronous `/request` call would have returned for the same options.
+ * Running out of time is not retried, since every new submission is billed.
+ */
+export async function requestAsyncResult(
+	this: IExecuteFunctions,
+	body: IDataObject,
+	polling: AsyncPollingOptions,
+	options: AsyncRequestOptions = {},
+): Promise<any> {
+	const requestOptions = options.requestOptions ?? {};
+	const { zone, ...request } = body;
+	const submitted = await brightdataApiRequest.call(
+		this,
+		'POST',
+		'/unblocker/req',
+		request,
+		{ zone },
+		{},
+		{ returnFullResponse: true },
+	);
+
+	const responseId = submitted?.headers?.['x-response-id'];
+	if (!responseId) {
+		throw new NodeOperationError(this.getNode(), 'The async request returned no response ID');
+	}
+
+	const deadline = Date.now() + polling.timeout;
+	while (Date.now() < deadline) {
+		await sleep(Math.min(polling.pollInterval, Math.max(deadline - Date.now(), 0)));
+
+		if (options.signal?.aborted) {
+			throw new NodeOperationError(this.getNode(), 'Stopped because another item failed');
+		}
+		if (!consumeRequestBudget(options.apiCallBudget)) {
+			throw createBudgetError(
+				this.getNode(),
+				`Reached the limit of ${options.apiCallBudget!.limit} API calls for this execution`,
+				'maxApiCalls',
+			);
+		}
+
+		const response = await brightdataApiRequest.call(
+			this,
+			'GET',
+			'/unblocker/get_result',
+			{},
+			{ zone, response_id: responseId },
+			{},
+			{ ...requestOptions, returnFullResponse: true },
+		);
+		if (PENDING_STATUSES.includes(response.statusCode)) {
+			continue;
+		}
+
+		return requestOptions.returnFullResponse ? response : response.body;
+	}
+
+	throw new NodeOperationError(
+		this.getNode(),
+		`The result of async request ${responseId} was not ready after ${Math.round(
+			polling.timeout / 1000,
+		)} seconds`,
+	);
+}
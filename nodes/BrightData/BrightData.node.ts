@@ -14,8 +14,75 @@ import {
 	marketplaceDatasetOperations,
 } from './MarketplaceDatasetDescription';
 import { webScrapperFields, webScrapperOperations } from './WebScrapperDescription';
+import { budgetFields } from './BudgetDescription';
 import { getActiveZones, getCountries, getDataSets } from './SearchFunctions';
-import { brightdataApiRequest } from './GenericFunctions';
+import { runWithConcurrency } from './GenericFunctions';
+import { getActiveZoneTypes, getZoneTypeError } from './ZoneFunctions';
+import {
+	BudgetLimits,
+	consumeRequestBudget,
+	createBudgetError,
+	createRequestBudget,
+	getDatasetRecordsViolation,
+	isApiCallBudgetError,
+	isBudgetError,
+} from './BudgetFunctions';
+import { formatCountryStats, getCountryStatsMap } from './CountryStatsFunctions';
+import {
+	ExtractionField,
+	extractFields,
+	extractMetadata,
+	validateExtractionFields,
+} from './HtmlFunctions';
+import { chunkMarkdown } from './MarkdownFunctions';
+import { extractMainContent } from './ContentFunctions';
+import { TableOptions, extractTable } from './TableFunctions';
+import {
+	ResponseCache,
+	createDirectoryCache,
+	createStaticDataCache,
+	getCacheKey,
+} from './CacheFunctions';
+import { ProxyCredentials, openProxyRequest, readResponseBody } from './ProxyFunctions';
+import { crawlSite, formatCrawledPage, parseUrlPatterns } from './CrawlFunctions';
+import {
+	collectSitemapUrls,
+	decodeSitemapContent,
+	formatSitemapFailure,
+	formatSitemapUrl,
+	parseRobotsSitemaps,
+} from './SitemapFunctions';
+import {
+	GoogleSearchOptions,
+	SearchEngine,
+	buildGoogleSearchParams,
+	buildSearchUrl,
+	collectUniqueResults,
+	isEmptySerpResponse,
+	normalizeSerpResponse,
+	splitOrganicResults,
+} from './SerpFunctions';
+import {
+	BlockDetectionRules,
+	CountryMemoryMode,
+	CountryRotationOptions,
+	CountryRotationState,
+	ParsedBlockDetectionRules,
+	UnblockerOptions,
+	buildUnblockerHeaders,
+	classifyFailure,
+	createRejectedResponseError,
+	detectBlockedResponse,
+	getCountryMemoryKey,
+	getFileMimeType,
+	getFileName,
+	getResponseContent,
+	getTargetRequest,
+	loadWorkingCountries,
+	parseBlockDetectionRules,
+	parseCountryList,
+	requestWithCountryRotation,
+} from './UnlockerFunctions';
 
 // Resource check and operations remain the same
 export class BrightData implements INodeType {
@@ -38,6 +105,21 @@ export class BrightData implements INodeType {
 			{
 				name: 'brightdataApi',
 				required: true,
+				displayOptions: {
+					hide: {
+						operation: ['proxyRequest'],
+					},
+				},
+			},
+			{
+				name: 'brightdataProxyApi',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['webUnlocker'],
+						operation: ['proxyRequest'],
+					},
+				},
 			},
 		],
 		requestDefaults: {
@@ -76,6 +158,7 @@ export class BrightData implements INodeType {
 			...marketplaceDatasetFields,
 			...webScrapperOperations,
 			...webScrapperFields,
+			...budgetFields,
 		],
 	};
 
@@ -92,127 +175,839 @@ export class BrightData implements INodeType {
 		const returnData: INodeExecutionData[] = [];
 		const resource = this.getNodeParameter('resource', 0) as string;
 		const operation = this.getNodeParameter('operation', 0) as string;
+		const budgetLimits = this.getNodeParameter('budgetLimits', 0, {}) as BudgetLimits;
+		const apiCallBudget = createRequestBudget(budgetLimits.maxApiCalls);
+		const skipOnLimit = budgetLimits.onLimit === 'skip';
 
-		if (resource === 'webUnlocker') {
-			const usePersistence = this.getNodeParameter('usePersistence', 0, false) as boolean;
+		if (resource === 'webUnlocker' && operation === 'getCountryStats') {
 			const workflowStaticData = this.getWorkflowStaticData('node');
-			let workingCountry = (usePersistence && workflowStaticData.lastWorkingCountry) as
-				| string
-				| undefined;
+			const halfLife = this.getNodeParameter('statsHalfLife', 0, 24) as number;
+			const stats = formatCountryStats(getCountryStatsMap(workflowStaticData), halfLife);
+
+			return [stats.map((json) => ({ json, pairedItem: { item: 0 } }))];
+		} else if (resource === 'webUnlocker' && operation === 'resetCountryStats') {
+			const workflowStaticData = this.getWorkflowStaticData('node');
+			const countries = Object.keys(getCountryStatsMap(workflowStaticData)).length;
+			delete workflowStaticData.countryStats;
+
+			return [[{ json: { reset: true, countries }, pairedItem: { item: 0 } }]];
+		} else if (resource === 'webUnlocker' && operation === 'proxyRequest') {
+			const credentials = (await this.getCredentials('brightdataProxyApi')) as ProxyCredentials;
 
 			for (let i = 0; i < items.length; i++) {
+				try {
+					const method = this.getNodeParameter('method', i) as string;
+					const url = this.getNodeParameter('url', i) as string;
+					const responseType = this.getNodeParameter('responseType', i, 'data') as string;
+					const proxyOptions = this.getNodeParameter('proxyOptions', i, {}) as IDataObject;
+					const target = getTargetRequest.call(this, i, method);
+
+					if (!consumeRequestBudget(apiCallBudget)) {
+						throw createBudgetError(
+							this.getNode(),
+							`Reached the limit of ${apiCallBudget!.limit} API calls for this execution`,
+							'maxApiCalls',
+						);
+					}
+					const response = await openProxyRequest(
+						credentials,
+						{
+							country: this.getNodeParameter('proxyCountry', i, '') as string,
+							city: proxyOptions.city as string | undefined,
+							session: proxyOptions.session as string | undefined,
+						},
+						{
+							method,
+							url,
+							headers: target.headers,
+							body: target.body,
+							timeout: (proxyOptions.timeout as number) ?? 60000,
+							ignoreSslIssues: proxyOptions.ignoreSslIssues as boolean | undefined,
+						},
+					);
+					const responseHeaders = response.headers as IDataObject;
+
+					if (responseType === 'file') {
+						// The response is streamed so that large downloads are not buffered in memory
+						const binaryPropertyName = this.getNodeParameter(
+							'binaryPropertyName',
+							i,
+							'data',
+						) as string;
+						const binaryData = await this.helpers.prepareBinaryData(
+							response,
+							getFileName(responseHeaders, url),
+							getFileMimeType(responseHeaders),
+						);
+
+						returnData.push({
+							json: {
+								url,
+								status_code: response.statusCode,
+								file_name: binaryData.fileName,
+								mime_type: binaryData.mimeType,
+							},
+							binary: { [binaryPropertyName]: binaryData },
+							pairedItem: { item: i },
+						});
+					} else {
+						const text = (await readResponseBody(response)).toString('utf8');
+						let body: unknown = text;
+						if (/json/i.test(String(responseHeaders['content-type'] ?? ''))) {
+							try {
+								body = JSON.parse(text);
+							} catch {}
+						}
+
+						returnData.push({
+							json: {
+								url,
+								status_code: response.statusCode,
+								headers: responseHeaders,
+								body: body as IDataObject,
+							},
+							pairedItem: { item: i },
+						});
+					}
+				} catch (error) {
+					if (isBudgetError(error) && skipOnLimit) {
+						returnData.push({
+							json: { skipped: true, reason: error.message },
+							pairedItem: { item: i },
+						});
+						continue;
+					}
+					if (this.continueOnFail()) {
+						returnData.push({ json: { error: error.message }, pairedItem: { item: i } });
+						continue;
+					}
+					if (error instanceof NodeOperationError) {
+						throw error;
+					}
+					throw new NodeOperationError(this.getNode(), error as Error, { itemIndex: i });
+				}
+			}
+
+			return [returnData];
+		} else if (resource === 'webUnlocker') {
+			const usePersistence = this.getNodeParameter('usePersistence', 0, false) as boolean;
+			const useCountryStats = this.getNodeParameter('useCountryStats', 0, false) as boolean;
+			const countryMemoryMode = (
+				usePersistence ? this.getNodeParameter('countryMemoryMode', 0, 'global') : 'global'
+			) as CountryMemoryMode;
+			const workflowStaticData = this.getWorkflowStaticData('node');
+			const rotationState: CountryRotationState = {
+				usePersistence,
+				staticData: workflowStaticData,
+				workingCountries: loadWorkingCountries(workflowStaticData, usePersistence),
+				memoryTtl: usePersistence ? (this.getNodeParameter('countryMemoryTtl', 0, 0) as number) : 0,
+				statsHalfLife: useCountryStats
+					? (this.getNodeParameter('statsHalfLife', 0, 24) as number)
+					: undefined,
+				apiCallBudget,
+			};
+
+			const includeAttempts = this.getNodeParameter('includeAttempts', 0, false) as boolean;
+			// Listed once, when the first item needs to check its zone
+			let zoneTypes: Promise<Map<string, string>> | undefined;
+
+			let responseCache: ResponseCache | undefined;
+			if (this.getNodeParameter('useCache', 0, false)) {
+				const cacheOptions = {
+					ttl: (this.getNodeParameter('cacheTtl', 0, 60) as number) * 60000,
+					maxSize: (this.getNodeParameter('cacheMaxSize', 0, 10) as number) * 1024 * 1024,
+				};
+				responseCache =
+					this.getNodeParameter('cacheStorage', 0, 'staticData') === 'directory'
+						? createDirectoryCache(
+								this.getNodeParameter('cacheDirectory', 0) as string,
+								cacheOptions,
+							)
+						: createStaticDataCache(workflowStaticData, cacheOptions);
+			}
+
+			const processItem = async (i: number, signal: AbortSignal): Promise<INodeExecutionData[]> => {
+				const itemData: INodeExecutionData[] = [];
+				// Tries are logged per request, so that every output only carries the tries of its own page
+				const attemptLogs = new Map<string, IDataObject[]>();
+				const getAttemptLog = (key: string) => {
+					if (!includeAttempts) {
+						return undefined;
+					}
+					const log = attemptLogs.get(key) ?? [];
+					attemptLogs.set(key, log);
+					return log;
+				};
+				const getOwnAttempts = (key: string): IDataObject =>
+					includeAttempts ? { _attempts: [...(attemptLogs.get(key) ?? [])] } : {};
+				const getItemAttempts = () => [...attemptLogs.values()].flat();
 				try {
 					const rotateCountries = this.getNodeParameter('rotateCountries', i, false) as boolean;
 					const primaryCountryData = this.getNodeParameter('country', i) as { value: string };
-					const primaryCountry = primaryCountryData.value;
 					const zoneData = this.getNodeParameter('zone', i) as { value: string };
 					const zone = zoneData.value;
 
-					let countriesToTry = [primaryCountry];
-					if (workingCountry) {
-						countriesToTry = [workingCountry, ...countriesToTry.filter((c) => c !== workingCountry)];
+					zoneTypes ??= getActiveZoneTypes.call(this);
+					const zoneError = getZoneTypeError(operation, zone, (await zoneTypes).get(zone));
+					if (zoneError) {
+						throw new NodeOperationError(this.getNode(), zoneError, { itemIndex: i });
 					}
 
-					if (rotateCountries) {
-						const additionalCountriesStr = this.getNodeParameter('additionalCountries', i, '') as string;
-						if (additionalCountriesStr) {
-							const extras = additionalCountriesStr
-								.split(/[ ,;]+/)
-								.map((c) => c.trim())
-								.filter((c) => c);
-							countriesToTry = [...new Set([...countriesToTry, ...extras])];
-						}
-					}
+					const rotationOptions: CountryRotationOptions = {
+						primaryCountry: primaryCountryData.value,
+						additionalCountries: rotateCountries
+							? parseCountryList(this.getNodeParameter('additionalCountries', i, '') as string)
+							: [],
+						retry: {
+							maxRetries: this.getNodeParameter('maxRetries', i, 2) as number,
+							baseDelay: this.getNodeParameter('retryDelay', i, 1000) as number,
+							maxDelay: this.getNodeParameter('maxRetryDelay', i, 30000) as number,
+						},
+						maxAttempts: budgetLimits.maxCountryAttempts,
+						signal,
+					};
+					const countryMemoryGroup =
+						countryMemoryMode === 'group'
+							? (this.getNodeParameter('countryMemoryGroup', i, '') as string)
+							: '';
 
-					let lastError: any;
-					let success = false;
+					// Plain GET of a page, used by the operations that walk a site
+					const fetchPageContent = async (url: string, pageFormat: 'html' | 'markdown') =>
+						(await requestWithCountryRotation.call(
+							this,
+							rotationState,
+							{ ...rotationOptions, attempts: getAttemptLog(url) },
+							(country) => {
+								const body: IDataObject = { zone, country, method: 'GET', url, format: 'raw' };
+								if (pageFormat === 'markdown') {
+									body.data_format = 'markdown';
+								}
+								return body;
+							},
+							(responseData, country) => {
+								const content =
+									typeof responseData === 'string'
+										? responseData
+										: getResponseContent(responseData);
+								if (!content) {
+									throw createRejectedResponseError(this.getNode(), 'Parsed content is empty');
+								}
+								return { content, country };
+							},
+						)) as { content: string; country: string };
 
-					for (const country of countriesToTry) {
+					if (operation === 'request') {
+						const method = this.getNodeParameter('method', i) as string;
+						const url = this.getNodeParameter('url', i) as string;
+						rotationOptions.memoryKey = getCountryMemoryKey(
+							countryMemoryMode,
+							url,
+							countryMemoryGroup,
+						);
+						rotationOptions.attempts = getAttemptLog(url);
+						if (this.getNodeParameter('asyncRequest', i, false)) {
+							const asyncOptions = this.getNodeParameter('asyncOptions', i, {}) as IDataObject;
+							rotationOptions.asyncPolling = {
+								pollInterval: ((asyncOptions.pollInterval as number | undefined) ?? 5) * 1000,
+								timeout: ((asyncOptions.timeout as number | undefined) ?? 300) * 1000,
+							};
+						}
+						const format = this.getNodeParameter('format', i) as string;
+						const responseType = this.getNodeParameter('responseType', i, 'data') as string;
+						const dataFormat = this.getNodeParameter('data_format', i, '') as string;
+						const extractionFields = ((
+							this.getNodeParameter('extractionFields', i, {}) as IDataObject
+						).fields ?? []) as ExtractionField[];
+						let blockDetection: ParsedBlockDetectionRules;
 						try {
-							let body: IDataObject = {};
-							if (operation === 'request') {
-								const method = this.getNodeParameter('method', i) as string;
-								const url = this.getNodeParameter('url', i) as string;
-								const format = this.getNodeParameter('format', i) as string;
-								const dataFormat = this.getNodeParameter('data_format', i, '') as string;
-								body = {
-									zone,
-									country,
-									method,
+							blockDetection = parseBlockDetectionRules(
+								this.getNodeParameter('blockDetection', i, {}) as BlockDetectionRules,
+							);
+							validateExtractionFields(extractionFields);
+						} catch (error) {
+							throw new NodeOperationError(this.getNode(), error.message, { itemIndex: i });
+						}
+						const includeMainContent =
+							!dataFormat && (this.getNodeParameter('extractMainContent', i, false) as boolean);
+						const includeTable =
+							!dataFormat &&
+							!includeMainContent &&
+							(this.getNodeParameter('extractTable', i, false) as boolean);
+						// Table rows have no room for the metadata of the page
+						const includeMetadata =
+							!dataFormat &&
+							!includeTable &&
+							(this.getNodeParameter('extractMetadata', i, false) as boolean);
+						const unblockerOptions = this.getNodeParameter(
+							'unblockerOptions',
+							i,
+							{},
+						) as UnblockerOptions;
+						const includeHeaders = unblockerOptions.includeResponseHeaders === true;
+						const { headers: targetHeaders, body: targetBody } = getTargetRequest.call(
+							this,
+							i,
+							method,
+						);
+						Object.assign(targetHeaders, buildUnblockerHeaders(unblockerOptions));
+
+						// The JSON format wraps the target body with its status code and headers
+						const requestFormat =
+							responseType === 'file'
+								? 'raw'
+								: includeHeaders
+									? 'json'
+									: dataFormat === 'markdown'
+										? 'raw'
+										: format;
+
+						const buildBody = (country: string) => {
+							const body: IDataObject = {
+								zone,
+								country,
+								method,
+								url,
+								format: requestFormat,
+							};
+							if (dataFormat && responseType !== 'file') {
+								body.data_format = dataFormat;
+							}
+							if (Object.keys(targetHeaders).length) {
+								body.headers = targetHeaders;
+							}
+							if (targetBody !== undefined) {
+								body.body = targetBody;
+							}
+							return body;
+						};
+
+						if (responseType === 'file') {
+							const file = (await requestWithCountryRotation.call(
+								this,
+								rotationState,
+								{
+									...rotationOptions,
+									requestOptions: {
+										encoding: 'arraybuffer',
+										json: false,
+										returnFullResponse: true,
+									},
+								},
+								buildBody,
+								(response, country) => {
+									const data = Buffer.from(response.body ?? []);
+									if (!data.length) {
+										throw createRejectedResponseError(this.getNode(), 'File is empty');
+									}
+									return { data, headers: (response.headers ?? {}) as IDataObject, country };
+								},
+							)) as { data: Buffer; headers: IDataObject; country: string };
+
+							const binaryPropertyName = this.getNodeParameter(
+								'binaryPropertyName',
+								i,
+								'data',
+							) as string;
+							const binaryData = await this.helpers.prepareBinaryData(
+								file.data,
+								getFileName(file.headers, url),
+								getFileMimeType(file.headers),
+							);
+
+							itemData.push({
+								json: {
 									url,
-									format: dataFormat === 'markdown' ? 'raw' : format,
-								};
-								if (dataFormat) {
-									body.data_format = dataFormat;
+									file_name: binaryData.fileName,
+									mime_type: binaryData.mimeType,
+									size: file.data.length,
+									...(includeHeaders ? { headers: file.headers } : {}),
+									country_code: file.country,
+								},
+								binary: { [binaryPropertyName]: binaryData },
+								pairedItem: { item: i },
+							});
+						} else {
+							const cacheKey = getCacheKey({
+								method,
+								url,
+								country: rotationOptions.primaryCountry,
+								format: requestFormat,
+								dataFormat,
+								headers: targetHeaders,
+								body: targetBody,
+							});
+							// The cache is best effort, an entry that cannot be read is fetched again
+							const cachedData = await responseCache?.get(cacheKey).catch(() => undefined);
+
+							let processedEntries = cachedData
+								? cachedData.map((json) => ({ json }))
+								: ((await requestWithCountryRotation.call(
+										this,
+										rotationState,
+										rotationOptions,
+										buildBody,
+										(responseData, country) => {
+											const executionData = this.helpers.returnJsonArray(responseData);
+
+											for (const entry of executionData) {
+												if (typeof entry.json !== 'object' || entry.json === null) {
+													entry.json = { body: entry.json };
+												}
+
+												// IF BODY IS EMPTY -> FAIL THIS COUNTRY
+												const content = getResponseContent(entry.json);
+												if (!content) {
+													throw createRejectedResponseError(
+														this.getNode(),
+														'Parsed content is empty',
+													);
+												}
+
+												// IF BODY LOOKS BLOCKED -> FAIL THIS COUNTRY
+												const blockReason = detectBlockedResponse(
+													content,
+													entry.json.status_code as number | undefined,
+													blockDetection,
+												);
+												if (blockReason) {
+													throw createRejectedResponseError(
+														this.getNode(),
+														`Blocked response: ${blockReason}`,
+													);
+												}
+
+												entry.json.country_code = country;
+											}
+
+											return executionData;
+										},
+									)) as INodeExecutionData[]);
+
+							// Only responses that passed the empty and block checks above are stored, and a
+							// failed write does not fail the response that was already paid for
+							if (responseCache && !cachedData) {
+								await responseCache
+									.set(
+										cacheKey,
+										processedEntries.map((entry) => entry.json),
+									)
+									.catch(() => {});
+							}
+
+							// The metadata is added next to the body, and kept when fields are extracted
+							if (includeMetadata) {
+								for (const entry of processedEntries) {
+									entry.json.metadata = extractMetadata(getResponseContent(entry.json), url);
 								}
-							} else if (operation === 'WebSearch') {
-								const query = this.getNodeParameter('query', i) as string;
-								const page = this.getNodeParameter('page', i, 1) as number;
-								const url = `https://www.google.com/search?q=${encodeURIComponent(
-									query,
-								)}&start=${(page - 1) * 10}&brd_json=1`;
-								body = {
-									zone,
-									country,
-									url,
-									format: 'raw',
-								};
 							}
 
-							const responseData = await brightdataApiRequest.call(this, 'POST', '/request', body);
+							if (includeMainContent) {
+								for (const entry of processedEntries) {
+									const mainContent = extractMainContent(getResponseContent(entry.json), url);
+									entry.json = {
+										url,
+										title: mainContent.title,
+										byline: mainContent.byline,
+										published_at: mainContent.publishedAt,
+										text: mainContent.text,
+										markdown: mainContent.markdown,
+										...(includeHeaders ? { headers: entry.json.headers } : {}),
+										...(includeMetadata ? { metadata: entry.json.metadata } : {}),
+										country_code: entry.json.country_code,
+									};
+								}
+							} else if (includeTable) {
+								const tableOptions = this.getNodeParameter('tableOptions', i, {}) as TableOptions;
+								processedEntries = processedEntries.flatMap((entry) => {
+									try {
+										return extractTable(getResponseContent(entry.json), tableOptions).map(
+											(row) => ({ json: { url, ...row, country_code: entry.json.country_code } }),
+										);
+									} catch (error) {
+										throw new NodeOperationError(
+											this.getNode(),
+											`Could not extract the table: ${error.message}`,
+											{ itemIndex: i },
+										);
+									}
+								});
+							} else if (extractionFields.length) {
+								for (const entry of processedEntries) {
+									try {
+										entry.json = {
+											url,
+											...extractFields(getResponseContent(entry.json), extractionFields),
+											...(includeHeaders ? { headers: entry.json.headers } : {}),
+											...(includeMetadata ? { metadata: entry.json.metadata } : {}),
+											country_code: entry.json.country_code,
+										};
+									} catch (error) {
+										throw new NodeOperationError(
+											this.getNode(),
+											`Could not extract fields: ${error.message}`,
+											{ itemIndex: i },
+										);
+									}
+								}
+							}
+
+							if (dataFormat === 'markdown' && this.getNodeParameter('chunkMarkdown', i, false)) {
+								const chunkSize = this.getNodeParameter('chunkSize', i, 2000) as number;
+								const chunkOverlap = this.getNodeParameter('chunkOverlap', i, 200) as number;
 
-							if (!responseData || responseData === '') {
-								throw new NodeOperationError(this.getNode(), 'Raw response is empty');
+								processedEntries = processedEntries.flatMap((entry) => {
+									const chunks = chunkMarkdown(
+										getResponseContent(entry.json),
+										chunkSize,
+										chunkOverlap,
+									);
+									return chunks.map((chunk, index) => ({
+										json: {
+											url,
+											chunk_index: index,
+											chunk_count: chunks.length,
+											heading_path: chunk.headingPath,
+											content: chunk.content,
+											...(includeHeaders ? { headers: entry.json.headers } : {}),
+											country_code: entry.json.country_code,
+										},
+									}));
+								});
 							}
 
-							const executionData = this.helpers.returnJsonArray(responseData);
-							const processedEntries: INodeExecutionData[] = [];
+							if (responseCache) {
+								for (const entry of processedEntries) {
+									entry.json._cache = cachedData ? 'hit' : 'miss';
+								}
+							}
+
+							itemData.push(
+								...processedEntries.map((entry) => ({ ...entry, pairedItem: { item: i } })),
+							);
+						}
+					} else if (operation === 'WebSearch') {
+						const searchEngine = this.getNodeParameter('searchEngine', i, 'google') as SearchEngine;
+						const query = this.getNodeParameter('query', i) as string;
+						rotationOptions.memoryKey = getCountryMemoryKey(
+							countryMemoryMode,
+							buildSearchUrl(searchEngine, query),
+							countryMemoryGroup,
+						);
+						const searchPagination = this.getNodeParameter('searchPagination', i, 'page') as string;
+						const searchOutput = this.getNodeParameter('searchOutput', i, 'full') as string;
+						const searchParams =
+							searchEngine === 'google'
+								? buildGoogleSearchParams(
+										this.getNodeParameter('googleOptions', i, {}) as GoogleSearchOptions,
+									)
+								: {};
+
+						const fetchPage = async (page: number) =>
+							(await requestWithCountryRotation.call(
+								this,
+								rotationState,
+								{
+									...rotationOptions,
+									attempts: getAttemptLog(buildSearchUrl(searchEngine, query, page, searchParams)),
+								},
+								(country) => ({
+									zone,
+									country,
+									url: buildSearchUrl(searchEngine, query, page, searchParams),
+									format: 'raw',
+								}),
+								(responseData, country) => {
+									const serp = normalizeSerpResponse(searchEngine, responseData, query, page);
+									if (isEmptySerpResponse(serp)) {
+										throw createRejectedResponseError(
+											this.getNode(),
+											'Parsed search results are empty',
+										);
+									}
+
+									serp.country_code = country;
+									return serp;
+								},
+							)) as IDataObject;
 
-							for (const entry of executionData) {
-								if (typeof entry.json !== 'object' || entry.json === null) {
-									entry.json = { body: entry.json };
+						let serp: IDataObject;
+						if (searchPagination === 'collect') {
+							const maxResults = this.getNodeParameter('maxResults', i, 30) as number;
+							const maxPages = this.getNodeParameter('maxPages', i, 5) as number;
+							const seenLinks = new Set<string>();
+							const collected: IDataObject[] = [];
+							let offset = 0;
+							let pagesFetched = 0;
+							let lastCountry: string | undefined;
+							let stopReason: string | undefined;
+
+							for (let page = 1; page <= maxPages && collected.length < maxResults; page++) {
+								let pageSerp: IDataObject;
+								try {
+									pageSerp = await fetchPage(page);
+								} catch (error) {
+									// A later page that is blocked or over budget ends the walk with the results
+									// collected so far; errors that would fail every page still fail the item
+									const isPageFailure = isBudgetError(error)
+										? skipOnLimit || !isApiCallBudgetError(error)
+										: classifyFailure(error) !== 'fatal';
+									if (page === 1 || !isPageFailure) {
+										throw error;
+									}
+									stopReason = error.message;
+									break;
 								}
+								const organic = pageSerp.organic as IDataObject[];
+								pagesFetched++;
+								lastCountry = pageSerp.country_code as string;
 
-								// IF BODY IS EMPTY -> FAIL THIS COUNTRY
-								if (!entry.json.body && !entry.json.data && !entry.json.html) {
-									throw new NodeOperationError(this.getNode(), 'Parsed content is empty');
+								for (const result of collectUniqueResults(pageSerp, seenLinks, offset)) {
+									collected.push({ ...result, country_code: pageSerp.country_code });
 								}
+								offset += organic.length;
 
-								entry.json.country_code = country;
-								processedEntries.push(entry);
+								if (!organic.length) {
+									break;
+								}
 							}
 
-							// If we reached here, data is NOT empty
-							if (workingCountry !== country) {
-								workingCountry = country;
-								if (usePersistence) {
-									workflowStaticData.lastWorkingCountry = country;
+							serp = {
+								engine: searchEngine,
+								query,
+								pages_fetched: pagesFetched,
+								organic: collected.slice(0, maxResults),
+								country_code: lastCountry,
+								...(stopReason ? { stop_reason: stopReason } : {}),
+							};
+						} else {
+							serp = await fetchPage(this.getNodeParameter('page', i, 1) as number);
+						}
+
+						if (searchOutput === 'organic') {
+							itemData.push(
+								...splitOrganicResults(serp).map((json) => ({
+									json: {
+										...json,
+										...getOwnAttempts(
+											buildSearchUrl(searchEngine, query, json.page as number, searchParams),
+										),
+									},
+									pairedItem: { item: i },
+								})),
+							);
+						} else {
+							itemData.push({ json: serp, pairedItem: { item: i } });
+						}
+					} else if (operation === 'crawl') {
+						const seedUrl = this.getNodeParameter('seedUrl', i) as string;
+						rotationOptions.memoryKey = getCountryMemoryKey(
+							countryMemoryMode,
+							seedUrl,
+							countryMemoryGroup,
+						);
+						const crawlFormat = this.getNodeParameter('crawlFormat', i, 'html') as
+							'html' | 'markdown';
+
+						let budgetError: NodeOperationError | undefined;
+						const pages = await crawlSite(
+							seedUrl,
+							{
+								maxDepth: this.getNodeParameter('crawlMaxDepth', i, 2) as number,
+								maxPages: this.getNodeParameter('crawlMaxPages', i, 50) as number,
+								include: parseUrlPatterns(
+									this.getNodeParameter('includePatterns', i, '') as string,
+								),
+								exclude: parseUrlPatterns(
+									this.getNodeParameter('excludePatterns', i, '') as string,
+								),
+								format: crawlFormat,
+							},
+							async (url) => await fetchPageContent(url, crawlFormat),
+							(error) => {
+								if (!isApiCallBudgetError(error)) {
+									return false;
 								}
-							}
+								budgetError = error;
+								return true;
+							},
+						);
+						// Pages that fail are kept as errors, once the API calls run out the rest is skipped
+						if (budgetError && !skipOnLimit) {
+							throw budgetError;
+						}
 
-							returnData.push(...processedEntries);
-							success = true;
-							break;
+						itemData.push(
+							...pages.map((page) => ({
+								json: { ...formatCrawledPage(page), ...getOwnAttempts(page.url) },
+								pairedItem: { item: i },
+							})),
+						);
+					} else if (operation === 'sitemap') {
+						const sitemapUrl = this.getNodeParameter('sitemapUrl', i) as string;
+						rotationOptions.memoryKey = getCountryMemoryKey(
+							countryMemoryMode,
+							sitemapUrl,
+							countryMemoryGroup,
+						);
 
-						} catch (error) {
-							lastError = error;
+						// Sitemaps are fetched as files since they may be gzipped
+						const fetchSitemap = async (url: string) =>
+							(await requestWithCountryRotation.call(
+								this,
+								rotationState,
+								{
+									...rotationOptions,
+									attempts: getAttemptLog(url),
+									requestOptions: {
+										encoding: 'arraybuffer',
+										json: false,
+										returnFullResponse: true,
+									},
+								},
+								(country) => ({ zone, country, method: 'GET', url, format: 'raw' }),
+								(response) => {
+									const content = decodeSitemapContent(Buffer.from(response.body ?? []));
+									if (!content.trim()) {
+										throw createRejectedResponseError(this.getNode(), 'Parsed content is empty');
+									}
+									return content;
+								},
+							)) as string;
+
+						let sitemaps = [sitemapUrl];
+						if (this.getNodeParameter('sitemapSource', i, 'site') === 'site') {
+							const robotsUrl = new URL('/robots.txt', sitemapUrl).toString();
+							try {
+								sitemaps = parseRobotsSitemaps(await fetchSitemap(robotsUrl), robotsUrl);
+							} catch {
+								sitemaps = [];
+							}
+							if (!sitemaps.length) {
+								sitemaps = [new URL('/sitemap.xml', sitemapUrl).toString()];
+							}
 						}
-					}
 
-					if (!success) {
-						throw lastError || new NodeOperationError(this.getNode(), 'All countries failed to return data');
+						let budgetError: NodeOperationError | undefined;
+						const { urls: entries, failures } = await collectSitemapUrls(
+							sitemaps,
+							{
+								maxUrls: this.getNodeParameter('sitemapMaxUrls', i, 1000) as number,
+								include: parseUrlPatterns(
+									this.getNodeParameter('includePatterns', i, '') as string,
+								),
+								exclude: parseUrlPatterns(
+									this.getNodeParameter('excludePatterns', i, '') as string,
+								),
+								modifiedAfter:
+									(this.getNodeParameter('modifiedAfter', i, '') as string) || undefined,
+								modifiedBefore:
+									(this.getNodeParameter('modifiedBefore', i, '') as string) || undefined,
+							},
+							fetchSitemap,
+							(error) => {
+								if (!isApiCallBudgetError(error)) {
+									return false;
+								}
+								budgetError = error;
+								return true;
+							},
+						);
+						// Child sitemaps that fail are kept as errors, once the API calls run out the rest is skipped
+						if (budgetError && !skipOnLimit) {
+							throw budgetError;
+						}
+
+						const fetchPages = this.getNodeParameter('fetchPages', i, false) as boolean;
+						const pageFormat = this.getNodeParameter('sitemapPageFormat', i, 'html') as
+							'html' | 'markdown';
+
+						for (const entry of entries) {
+							const json = formatSitemapUrl(entry);
+							if (fetchPages && budgetError) {
+								json.skipped = true;
+								json.reason = budgetError.message;
+							} else if (fetchPages) {
+								try {
+									const { content, country } = await fetchPageContent(entry.url, pageFormat);
+									json.body = content;
+									json.country_code = country;
+								} catch (error) {
+									// Once the API calls run out, the pages left are skipped
+									if (!isApiCallBudgetError(error)) {
+										json.error = error.message;
+									} else if (skipOnLimit) {
+										budgetError = error;
+										json.skipped = true;
+										json.reason = error.message;
+									} else {
+										throw error;
+									}
+								}
+							}
+							itemData.push({
+								json: { ...json, ...getOwnAttempts(entry.url) },
+								pairedItem: { item: i },
+							});
+						}
+						itemData.push(
+							...failures.map((failure) => ({
+								json: { ...formatSitemapFailure(failure), ...getOwnAttempts(failure.sitemap) },
+								pairedItem: { item: i },
+							})),
+						);
 					}
 				} catch (error) {
+					if (isBudgetError(error) && skipOnLimit) {
+						return [{ json: { skipped: true, reason: error.message }, pairedItem: { item: i } }];
+					}
 					if (this.continueOnFail()) {
-						returnData.push({ json: { error: error.message } });
-						continue;
+						const json: IDataObject = { error: error.message };
+						if (includeAttempts) {
+							json._attempts = getItemAttempts();
+						}
+						return [{ json, pairedItem: { item: i } }];
 					}
 					throw error;
 				}
+
+				// Operations with a single request per output carry every try of the item
+				if (includeAttempts) {
+					for (const entry of itemData) {
+						entry.json._attempts ??= getItemAttempts();
+					}
+				}
+				return itemData;
+			};
+
+			// Items share the rotation state; the last successful country of a memory key wins,
+			// which keeps the remembered countries and the static data in sync under parallel requests.
+			const concurrency = this.getNodeParameter('concurrency', 0, 1) as number;
+			const itemResults = await runWithConcurrency(items.length, concurrency, processItem);
+			for (const itemData of itemResults) {
+				returnData.push(...itemData);
 			}
 
 			return [returnData];
 		} else {
+			// Routed operations send one API call per item, so the limits are checked up front
+			if (apiCallBudget && items.length > apiCallBudget.limit) {
+				throw new NodeOperationError(
+					this.getNode(),
+					`${items.length} items would send more API calls than the limit of ${apiCallBudget.limit} for this execution`,
+				);
+			}
+			if (resource === 'marketplaceDataset' && operation === 'filterDataset') {
+				for (let i = 0; i < items.length; i++) {
+					const violation = getDatasetRecordsViolation(
+						this.getNodeParameter('records_limit', i, 0) as number,
+						budgetLimits.maxDatasetRecords,
+					);
+					if (violation) {
+						throw new NodeOperationError(this.getNode(), violation, { itemIndex: i });
+					}
+				}
+			}
+
 			return await (this.helpers as any).executeRouting.call(this);
 		}
 	}
@@ -0,0 +1,85 @@
+import { INodeProperties } from 'n8n-workflow';
+
+export const budgetFields: INodeProperties[] = [
+	{
+		displayName: 'Budget Limits',
+		name: 'budgetLimits',
+		type: 'collection',
+		placeholder: 'Add Limit',
+		default: {},
+		description: 'Limits on the paid requests sent by one execution of this node',
+		displayOptions: {
+			hide: {
+				operation: ['getCountryStats', 'resetCountryStats'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Max API Calls per Execution',
+				name: 'maxApiCalls',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 100,
+				description:
+					'Max number of requests sent to Bright Data, including retries and country rotation. Set to 0 for no limit.',
+			},
+			{
+				displayName: 'Max Attempts per Request',
+				name: 'maxCountryAttempts',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 5,
+				description:
+					'Max number of requests sent to fetch one page, including retries and country rotation. Set to 0 for no limit.',
+				displayOptions: {
+					show: {
+						'/resource': ['webUnlocker'],
+					},
+				},
+			},
+			{
+				displayName: 'Max Dataset Records',
+				name: 'maxDatasetRecords',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 1000,
+				description: 'Max records limit a dataset filter may request. Set to 0 for no limit.',
+				displayOptions: {
+					show: {
+						'/resource': ['marketplaceDataset'],
+						'/operation': ['filterDataset'],
+					},
+				},
+			},
+			{
+				displayName: 'When a Limit Is Hit',
+				name: 'onLimit',
+				type: 'options',
+				options: [
+					{
+						name: 'Stop the Execution',
+						value: 'fail',
+					},
+					{
+						name: 'Skip the Remaining Items',
+						value: 'skip',
+						description:
+							'Output the items, crawled pages and sitemap pages that could not be fetched with skipped set to true',
+					},
+				],
+				default: 'fail',
+				displayOptions: {
+					show: {
+						'/resource': ['webUnlocker'],
+					},
+				},
+			},
+		],
+	},
+];
@@ -0,0 +1,75 @@
+import { INode, NodeOperationError } from 'n8n-workflow';
+
+export type BudgetLimits = {
+	maxApiCalls?: number;
+	maxCountryAttempts?: number;
+	maxDatasetRecords?: number;
+	onLimit?: 'fail' | 'skip';
+};
+
+export type RequestBudget = {
+	limit: number;
+	used: number;
+};
+
+/**
+ * Error for a spent budget. It is neither retried nor rotated to another country.
+ * `limit` is the limit that was hit.
+ */
+export function createBudgetError(
+	node: INode,
+	message: string,
+	limit: keyof BudgetLimits,
+): NodeOperationError {
+	const error = new NodeOperationError(node, message);
+	error.context.budgetExceeded = true;
+	error.context.budgetLimit = limit;
+	return error;
+}
+
+export function isBudgetError(error: unknown): error is NodeOperationError {
+	return error instanceof NodeOperationError && error.context.budgetExceeded === true;
+}
+
+// After this limit no other request of the execution can be sent
+export function isApiCallBudgetError(error: unknown): error is NodeOperationError {
+	return isBudgetError(error) && error.context.budgetLimit === 'maxApiCalls';
+}
+
+// A limit of 0 means no limit
+export function createRequestBudget(limit: number | undefined): RequestBudget | undefined {
+	return limit && limit > 0 ? { limit, used: 0 } : undefined;
+}
+
+/**
+ * Counts one request against the budget, returning `false` without counting it when the budget is spent.
+ */
+export function consumeRequestBudget(budget: RequestBudget | undefined): boolean {
+	if (!budget) {
+		return true;
+	}
+	if (budget.used >= budget.limit) {
+		return false;
+	}
+	budget.used++;
+	return true;
+}
+
+/**
+ * Returns why the dataset filter exceeds the records limit, or `undefined` when it does not.
+ */
+export function getDatasetRecordsViolation(
+	recordsLimit: number | undefined,
+	maxRecords: number | undefined,
+): string | undefined {
+	if (!maxRecords || maxRecords <= 0) {
+		return undefined;
+	}
+	if (!recordsLimit || recordsLimit <= 0) {
+		return `The records limit must be set to at most ${maxRecords}`;
+	}
+	if (recordsLimit > maxRecords) {
+		return `The records limit of ${recordsLimit} is above the budget of ${maxRecords} records`;
+	}
+	return undefined;
+}
@@ -0,0 +1,172 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+import { IDataObject, deepCopy } from 'n8n-workflow';
+
+export type CacheEntry = {
+	storedAt: number;
+	size: number;
+	data: IDataObject[];
+};
+
+export type ResponseCacheOptions = {
+	// Milliseconds after which an entry is stale
+	ttl: number;
+	// Bytes the cache may hold before the oldest entries are evicted
+	maxSize: number;
+};
+
+export type ResponseCache = {
+	get: (key: string) => Promise<IDataObject[] | undefined>;
+	set: (key: string, data: IDataObject[]) => Promise<void>;
+};
+
+export type CacheKeyParts = {
+	method: string;
+	url: string;
+	country: string;
+	format: string;
+	dataFormat: string;
+	headers?: IDataObject;
+	body?: string;
+};
+
+export function getCacheKey(parts: CacheKeyParts): string {
+	return createHash('sha256')
+		.update(
+			JSON.stringify([
+				parts.method.toUpperCase(),
+				parts.url,
+				parts.country,
+				parts.format,
+				parts.dataFormat,
+				parts.headers ?? {},
+				parts.body ?? null,
+			]),
+		)
+		.digest('hex');
+}
+
+function isExpired(storedAt: number, options: ResponseCacheOptions, now: number): boolean {
+	return now - storedAt > options.ttl;
+}
+
+/**
+ * Returns the keys to evict: the expired entries, then the oldest ones until the rest fits `maxSize`.
+ */
+export function getEvictedKeys(
+	entries: Array<{ key: string; storedAt: number; size: number }>,
+	options: ResponseCacheOptions,
+	now: number = Date.now(),
+): string[] {
+	const evicted: string[] = [];
+	let totalSize = 0;
+
+	for (const entry of [...entries].sort((a, b) => b.storedAt - a.storedAt)) {
+		if (isExpired(entry.storedAt, options, now) || totalSize + entry.size > options.maxSize) {
+			evicted.push(entry.key);
+		} else {
+			totalSize += entry.size;
+		}
+	}
+
+	return evicted;
+}
+
+/**
+ * Cache kept in the workflow static data, which n8n only saves for production executions.
+ */
+export function createStaticDataCache(
+	staticData: IDataObject,
+	options: ResponseCacheOptions,
+): ResponseCache {
+	if (typeof staticData.responseCache !== 'object' || staticData.responseCache === null) {
+		staticData.responseCache = {};
+	}
+	const entries = staticData.responseCache as { [key: string]: CacheEntry };
+
+	return {
+		get: async (key) => {
+			const entry = entries[key];
+			if (!entry || isExpired(entry.storedAt, options, Date.now())) {
+				return undefined;
+			}
+			return deepCopy(entry.data);
+		},
+		set: async (key, data) => {
+			const storedData = deepCopy(data);
+			entries[key] = {
+				storedAt: Date.now(),
+				size: Buffer.byteLength(JSON.stringify(storedData)),
+				data: storedData,
+			};
+
+			const evicted = getEvictedKeys(
+				Object.entries(entries).map(([entryKey, { storedAt, size }]) => ({
+					key: entryKey,
+					storedAt,
+					size,
+				})),
+				options,
+			);
+			for (const evictedKey of evicted) {
+				delete entries[evictedKey];
+			}
+		},
+	};
+}
+
+function ignoreMissingFile(error: NodeJS.ErrnoException): undefined {
+	if (error.code !== 'ENOENT') {
+		throw error;
+	}
+	return undefined;
+}
+
+/**
+ * Cache kept as one JSON file per entry in a local directory, which survives manual executions.
+ */
+export function createDirectoryCache(
+	directory: string,
+	options: ResponseCacheOptions,
+): ResponseCache {
+	const getFilePath = (key: string) => path.join(directory, `${key}.json`);
+
+	return {
+		get: async (key) => {
+			let entry: CacheEntry;
+			try {
+				entry = JSON.parse(await fs.readFile(getFilePath(key), 'utf8')) as CacheEntry;
+			} catch {
+				return undefined;
+			}
+			return isExpired(entry.storedAt, options, Date.now()) ? undefined : entry.data;
+		},
+		set: async (key, data) => {
+			const entry: CacheEntry = {
+				storedAt: Date.now(),
+				size: Buffer.byteLength(JSON.stringify(data)),
+				data,
+			};
+			await fs.mkdir(directory, { recursive: true });
+			await fs.writeFile(getFilePath(key), JSON.stringify(entry));
+
+			const files = (await fs.readdir(directory)).filter((file) =>
+				/^[0-9a-f]{64}\.json$/.test(file),
+			);
+			// Other items running at the same time may evict files between the listing and the stat
+			const entries = (
+				await Promise.all(
+					files.map(async (file) => {
+						const stats = await fs.stat(path.join(directory, file)).catch(ignoreMissingFile);
+						return stats && { key: file.slice(0, -5), storedAt: stats.mtimeMs, size: stats.size };
+					}),
+				)
+			).filter((entry) => entry !== undefined);
+			for (const evictedKey of getEvictedKeys(entries, options)) {
+				await fs.rm(getFilePath(evictedKey), { force: true });
+			}
+		},
+	};
+}
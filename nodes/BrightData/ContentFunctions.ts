@@ -0,0 +1,331 @@
+import { CheerioAPI, load } from 'cheerio';
+import { AnyNode, Element, isDocument, isTag, isText } from 'domhandler';
+import { IDataObject } from 'n8n-workflow';
+
+import { collapseWhitespace, resolveUrl } from './HtmlFunctions';
+
+export type MainContent = {
+	title: string | null;
+	byline: string | null;
+	publishedAt: string | null;
+	text: string;
+	markdown: string;
+};
+
+// Page chrome that never holds the main content
+const REMOVED_ELEMENTS = [
+	'script',
+	'style',
+	'noscript',
+	'template',
+	'iframe',
+	'svg',
+	'canvas',
+	'form',
+	'button',
+	'input',
+	'select',
+	'nav',
+	'aside',
+	'footer',
+	'[role="navigation"]',
+	'[role="banner"]',
+	'[role="contentinfo"]',
+	'[role="complementary"]',
+	'[role="dialog"]',
+	'[aria-hidden="true"]',
+	'[hidden]',
+].join(', ');
+
+const UNLIKELY_CANDIDATE =
+	/\bads?\b|\bad-|banner|breadcrumb|comment|consent|cookie|disqus|footer|gdpr|masthead|menu|modal|newsletter|popup|promo|related|share|sidebar|social|sponsor|subscribe|widget/i;
+const LIKELY_CANDIDATE = /article|body|content|entry|main|post|story|text/i;
+
+const BLOCK_ELEMENTS = 'p, h1, h2, h3, h4, h5, h6, li, blockquote, pre, td, th, dd, dt, figcaption';
+
+function getLinkDensity($: CheerioAPI, element: AnyNode): number {
+	const textLength = collapseWhitespace($(element).text()).length;
+	if (!textLength) {
+		return 1;
+	}
+	const linkLength = $(element)
+		.find('a')
+		.toArray()
+		.reduce((total, link) => total + collapseWhitespace($(link).text()).length, 0);
+	return linkLength / textLength;
+}
+
+function removeBoilerplate($: CheerioAPI): void {
+	$(REMOVED_ELEMENTS).remove();
+	$('header').not('article header').remove();
+
+	$('[class], [id]').each((_, element) => {
+		if (
+			isTag(element) &&
+			['html', 'body', 'article', 'main'].includes(element.tagName.toLowerCase())
+		) {
+			return;
+		}
+		const matchString = `${$(element).attr('class') ?? ''} ${$(element).attr('id') ?? ''}`;
+		if (UNLIKELY_CANDIDATE.test(matchString) && !LIKELY_CANDIDATE.test(matchString)) {
+			$(element).remove();
+		}
+	});
+}
+
+/**
+ * Scores the parents of every paragraph like Readability does: longer paragraphs with more
+ * commas add more, the grandparent gets half, and link-heavy containers are penalized.
+ */
+function findContentElement($: CheerioAPI): AnyNode {
+	const semantic = $('article, main, [role="main"], [itemprop="articleBody"]')
+		.toArray()
+		.sort((a, b) => $(b).text().length - $(a).text().length)[0];
+	if (semantic && collapseWhitespace($(semantic).text()).length >= 200) {
+		return semantic;
+	}
+
+	const scores = new Map<Element, number>();
+	$('p, pre, td').each((_, paragraph) => {
+		const text = collapseWhitespace($(paragraph).text());
+		if (text.length < 25) {
+			return;
+		}
+
+		const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+		const parent = $(paragraph).parent().get(0);
+		const grandparent = $(paragraph).parent().parent().get(0);
+		if (parent) {
+			scores.set(parent, (scores.get(parent) ?? 0) + score);
+		}
+		if (grandparent) {
+			scores.set(grandparent, (scores.get(grandparent) ?? 0) + score / 2);
+		}
+	});
+
+	let best: Element | undefined;
+	let bestScore = 0;
+	for (const [element, score] of scores) {
+		const adjusted = score * (1 - getLinkDensity($, element));
+		if (adjusted > bestScore) {
+			best = element;
+			bestScore = adjusted;
+		}
+	}
+
+	return best ?? semantic ?? $('body').get(0) ?? $.root().get(0);
+}
+
+function cleanContentElement($: CheerioAPI, content: AnyNode): void {
+	// Link lists such as tag clouds and "read more" blocks
+	$(content)
+		.find('ul, ol, div, section, table')
+		.each((_, element) => {
+			const text = collapseWhitespace($(element).text());
+			if (text.length < 200 && getLinkDensity($, element) > 0.5) {
+				$(element).remove();
+			}
+		});
+
+	$(content)
+		.find('p, div, section, span')
+		.each((_, element) => {
+			if (!collapseWhitespace($(element).text()) && !$(element).find('img').length) {
+				$(element).remove();
+			}
+		});
+}
+
+function getMetaContent($: CheerioAPI, selectors: string[]): string | null {
+	for (const selector of selectors) {
+		const value = collapseWhitespace($(selector).first().attr('content') ?? '');
+		if (value) {
+			return value;
+		}
+	}
+	return null;
+}
+
+function getJsonLdValue($: CheerioAPI, key: string): unknown {
+	for (const script of $('script[type="application/ld+json"]').toArray()) {
+		try {
+			const parsed = JSON.parse($(script).text());
+			const blocks = (
+				Array.isArray(parsed) ? parsed : [parsed, ...(parsed['@graph'] ?? [])]
+			) as IDataObject[];
+			const block = blocks.find((candidate) => candidate?.[key] !== undefined);
+			if (block) {
+				return block[key];
+			}
+		} catch {}
+	}
+	return undefined;
+}
+
+function getByline($: CheerioAPI): string | null {
+	const meta = getMetaContent($, ['meta[name="author"]', 'meta[property="article:author"]']);
+	if (meta && !/^https?:\/\//.test(meta)) {
+		return meta;
+	}
+
+	const author = getJsonLdValue($, 'author') as IDataObject | IDataObject[] | string | undefined;
+	const authors = Array.isArray(author) ? author : author ? [author] : [];
+	const names = authors
+		.map((entry) => (typeof entry === 'string' ? entry : (entry.name as string | undefined)))
+		.filter((name): name is string => !!name);
+	if (names.length) {
+		return names.join(', ');
+	}
+
+	const element = $('[rel="author"], [itemprop="author"], .byline, .author').first();
+	return collapseWhitespace(element.text()) || null;
+}
+
+function getPublishedAt($: CheerioAPI): string | null {
+	const published =
+		getMetaContent($, [
+			'meta[property="article:published_time"]',
+			'meta[itemprop="datePublished"]',
+			'meta[name="date"]',
+		]) ??
+		(getJsonLdValue($, 'datePublished') as string | undefined) ??
+		$('time[datetime]').first().attr('datetime');
+
+	return published ? collapseWhitespace(published) : null;
+}
+
+function getTitle($: CheerioAPI): string | null {
+	const title =
+		getMetaContent($, ['meta[property="og:title"]', 'meta[name="twitter:title"]']) ??
+		collapseWhitespace($('h1').first().text());
+	return title || collapseWhitespace($('title').first().text()) || null;
+}
+
+function toMarkdown($: CheerioAPI, node: AnyNode, baseUrl: string, listDepth: number = 0): string {
+	if (isText(node)) {
+		return node.data.replace(/\s+/g, ' ');
+	}
+	if (!isTag(node) && !isDocument(node)) {
+		return '';
+	}
+
+	const children = () =>
+		$(node)
+			.contents()
+			.toArray()
+			.map((child) => toMarkdown($, child, baseUrl, listDepth))
+			.join('');
+	const tagName = isTag(node) ? node.tagName.toLowerCase() : '';
+
+	switch (tagName) {
+		case 'h1':
+		case 'h2':
+		case 'h3':
+		case 'h4':
+		case 'h5':
+		case 'h6':
+			return `\n\n${'#'.repeat(Number(tagName[1]))} ${collapseWhitespace(children())}\n\n`;
+		case 'p':
+		case 'div':
+		case 'section':
+		case 'article':
+		case 'main':
+		case 'figure':
+		case 'table':
+		case 'tr':
+			return `\n\n${children().trim()}\n\n`;
+		case 'br':
+			return '\n';
+		case 'hr':
+			return '\n\n---\n\n';
+		case 'strong':
+		case 'b': {
+			const text = children().trim();
+			return text ? `**${text}**` : '';
+		}
+		case 'em':
+		case 'i': {
+			const text = children().trim();
+			return text ? `_${text}_` : '';
+		}
+		case 'code':
+			return `\`${$(node).text()}\``;
+		case 'pre':
+			return `\n\n\`\`\`\n${$(node).text().replace(/\n$/, '')}\n\`\`\`\n\n`;
+		case 'a': {
+			const text = children().trim();
+			const href = $(node).attr('href');
+			const link = href && !href.startsWith('#') ? resolveUrl(href, baseUrl) : undefined;
+			return link && text ? `[${text}](${link})` : text;
+		}
+		case 'img': {
+			const src = resolveUrl($(node).attr('src') ?? '', baseUrl);
+			return src ? `![${$(node).attr('alt') ?? ''}](${src})` : '';
+		}
+		case 'blockquote':
+			return `\n\n${children()
+				.trim()
+				.split('\n')
+				.map((line) => `> ${line}`.trimEnd())
+				.join('\n')}\n\n`;
+		case 'ul':
+		case 'ol': {
+			const items = $(node)
+				.children('li')
+				.toArray()
+				.map((item, index) => {
+					const marker = tagName === 'ol' ? `${index + 1}.` : '-';
+					const content = $(item)
+						.contents()
+						.toArray()
+						.map((child) => toMarkdown($, child, baseUrl, listDepth + 1))
+						.join('')
+						.trim()
+						.replace(/\n{2,}/g, '\n');
+					return `${'  '.repeat(listDepth)}${marker} ${content}`;
+				});
+			return `\n\n${items.join('\n')}\n\n`;
+		}
+		case 'td':
+		case 'th':
+			return ` ${children().trim()} `;
+		default:
+			return children();
+	}
+}
+
+function getCleanText($: CheerioAPI, content: AnyNode): string {
+	const blocks = $(content)
+		.find(BLOCK_ELEMENTS)
+		.filter((_, element) => !$(element).parents(BLOCK_ELEMENTS).length)
+		.toArray()
+		.map((element) => collapseWhitespace($(element).text()))
+		.filter((text) => text);
+
+	return blocks.length ? blocks.join('\n\n') : collapseWhitespace($(content).text());
+}
+
+/**
+ * Returns the main content of an article page without its navigation, footers, banners
+ * and other page chrome, along with its title, byline and publication date.
+ * Links and images in the markdown are made absolute against `baseUrl`.
+ */
+export function extractMainContent(html: string, baseUrl: string): MainContent {
+	const $ = load(html);
+	const title = getTitle($);
+	const byline = getByline($);
+	const publishedAt = getPublishedAt($);
+
+	removeBoilerplate($);
+	const content = findContentElement($);
+	cleanContentElement($, content);
+
+	const markdown = toMarkdown($, content, baseUrl)
+		.split('\n')
+		.map((line) => line.trimEnd())
+		.join('\n')
+		.replace(/\n{3,}/g, '\n\n')
+		.trim();
+
+	return { title, byline, publishedAt, text: getCleanText($, content), markdown };
+}
@@ -0,0 +1,106 @@
+import { IDataObject } from 'n8n-workflow';
+
+export type CountryStats = {
+	successes: number;
+	failures: number;
+	avgLatency: number;
+	updatedAt: number;
+};
+
+export type CountryStatsMap = { [country: string]: CountryStats };
+
+// Weight of the newest sample in the average latency
+const LATENCY_SMOOTHING = 0.3;
+
+export function getCountryStatsMap(staticData: IDataObject): CountryStatsMap {
+	if (typeof staticData.countryStats !== 'object' || staticData.countryStats === null) {
+		staticData.countryStats = {};
+	}
+	return staticData.countryStats as CountryStatsMap;
+}
+
+/**
+ * Returns the counters of a country decayed to `now`, halving their weight every `halfLife` hours.
+ */
+export function decayCountryStats(
+	stats: CountryStats,
+	halfLife: number,
+	now: number,
+): CountryStats {
+	const elapsedHours = Math.max(now - stats.updatedAt, 0) / 3600000;
+	const factor = halfLife > 0 ? 0.5 ** (elapsedHours / halfLife) : 1;
+
+	return {
+		successes: stats.successes * factor,
+		failures: stats.failures * factor,
+		avgLatency: stats.avgLatency,
+		updatedAt: now,
+	};
+}
+
+export function recordCountryResult(
+	statsMap: CountryStatsMap,
+	country: string,
+	success: boolean,
+	latency: number,
+	halfLife: number,
+	now: number = Date.now(),
+): void {
+	const current = statsMap[country]
+		? decayCountryStats(statsMap[country], halfLife, now)
+		: { successes: 0, failures: 0, avgLatency: 0, updatedAt: now };
+
+	if (success) {
+		current.successes += 1;
+		current.avgLatency = current.avgLatency
+			? current.avgLatency * (1 - LATENCY_SMOOTHING) + latency * LATENCY_SMOOTHING
+			: latency;
+	} else {
+		current.failures += 1;
+	}
+
+	statsMap[country] = current;
+}
+
+// Laplace smoothing gives countries without history a neutral 50% rate
+export function getSuccessRate(stats?: CountryStats): number {
+	if (!stats) {
+		return 0.5;
+	}
+	return (stats.successes + 1) / (stats.successes + stats.failures + 2);
+}
+
+/**
+ * Orders countries by success rate, then by latency. Ties keep their original order.
+ */
+export function sortCountriesByStats(countries: string[], statsMap: CountryStatsMap): string[] {
+	return countries
+		.map((country, index) => ({ country, index, stats: statsMap[country] }))
+		.sort(
+			(a, b) =>
+				getSuccessRate(b.stats) - getSuccessRate(a.stats) ||
+				(a.stats?.avgLatency || Infinity) - (b.stats?.avgLatency || Infinity) ||
+				a.index - b.index,
+		)
+		.map(({ country }) => country);
+}
+
+export function formatCountryStats(
+	statsMap: CountryStatsMap,
+	halfLife: number,
+	now: number = Date.now(),
+): IDataObject[] {
+	return Object.entries(statsMap)
+		.map(([country, stats]) => {
+			const decayed = decayCountryStats(stats, halfLife, now);
+			return {
+				country_code: country,
+				success_rate: Math.round(getSuccessRate(decayed) * 1000) / 1000,
+				successes: Math.round(decayed.successes * 100) / 100,
+				failures: Math.round(decayed.failures * 100) / 100,
+				avg_latency_ms: Math.round(decayed.avgLatency),
+				updated_at: new Date(stats.updatedAt).toISOString(),
+			};
+		})
+		.sort((a, b) => b.success_rate - a.success_rate);
+}
@@ -0,0 +1,163 @@
+import { IDataObject } from 'n8n-workflow';
+
+import { extractLinks } from './HtmlFunctions';
+
+export type CrawlOptions = {
+	maxDepth: number;
+	maxPages: number;
+	include: RegExp[];
+	exclude: RegExp[];
+	format: 'html' | 'markdown';
+};
+
+export type CrawledPage = {
+	url: string;
+	depth: number;
+	referrer: string | null;
+	content?: string;
+	country?: string;
+	error?: string;
+	// Why the page was not fetched
+	skipped?: string;
+};
+
+/**
+ * Converts a URL pattern to a regular expression. `/pattern/flags` is used as is, without the
+ * stateful `g` and `y` flags, anything else is a wildcard pattern where `*` matches any characters.
+ */
+export function toUrlPattern(pattern: string): RegExp {
+	const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+	if (regex) {
+		return new RegExp(regex[1], regex[2].replace(/[gy]/g, ''));
+	}
+
+	const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+	return new RegExp(escaped, 'i');
+}
+
+// One pattern per line, since regular expressions may contain commas
+export function parseUrlPatterns(patterns: string): RegExp[] {
+	return patterns
+		.split(/\r?\n/)
+		.map((pattern) => pattern.trim())
+		.filter((pattern) => pattern)
+		.map(toUrlPattern);
+}
+
+/**
+ * Whether a URL passes the include patterns (any of them, when set) and none of the exclude patterns.
+ */
+export function matchesUrlPatterns(url: string, include: RegExp[], exclude: RegExp[]): boolean {
+	if (include.length && !include.some((pattern) => pattern.test(url))) {
+		return false;
+	}
+	return !exclude.some((pattern) => pattern.test(url));
+}
+
+// Drops the fragment so that anchors on the same page are not crawled twice
+export function normalizeCrawlUrl(url: string): string {
+	const parsed = new URL(url);
+	parsed.hash = '';
+	return parsed.toString();
+}
+
+function getSiteHost(url: string): string {
+	return new URL(url).hostname.replace(/^www\./, '');
+}
+
+/**
+ * Walks the site of `seedUrl` breadth-first, staying on the same host.
+ * The seed page must load, other pages that fail are returned with their error.
+ * When `shouldStop` accepts an error, the crawl ends and the pages left are returned as skipped.
+ */
+export async function crawlSite(
+	seedUrl: string,
+	options: CrawlOptions,
+	fetchPage: (url: string) => Promise<{ content: string; country: string }>,
+	shouldStop: (error: any) => boolean = () => false,
+): Promise<CrawledPage[]> {
+	const siteHost = getSiteHost(seedUrl);
+
+	const start = normalizeCrawlUrl(seedUrl);
+	const queue: Array<{ url: string; depth: number; referrer: string | null }> = [
+		{ url: start, depth: 0, referrer: null },
+	];
+	const seen = new Set([start]);
+	const pages: CrawledPage[] = [];
+
+	while (queue.length && pages.length < options.maxPages) {
+		const { url, depth, referrer } = queue.shift()!;
+
+		let page: CrawledPage;
+		try {
+			const { content, country } = await fetchPage(url);
+			page = { url, depth, referrer, content, country };
+		} catch (error) {
+			if (shouldStop(error)) {
+				for (const pending of [{ url, depth, referrer }, ...queue]) {
+					if (pages.length >= options.maxPages) {
+						break;
+					}
+					pages.push({ ...pending, skipped: error.message });
+				}
+				break;
+			}
+			if (!pages.length) {
+				throw error;
+			}
+			pages.push({ url, depth, referrer, error: error.message });
+			continue;
+		}
+		pages.push(page);
+
+		if (depth >= options.maxDepth) {
+			continue;
+		}
+
+		for (const link of extractLinks(page.content!, url, options.format === 'markdown')) {
+			let linkUrl: string;
+			try {
+				linkUrl = normalizeCrawlUrl(link);
+			} catch {
+				continue;
+			}
+
+			if (
+				seen.has(linkUrl) ||
+				!/^https?:$/.test(new URL(linkUrl).protocol) ||
+				getSiteHost(linkUrl) !== siteHost ||
+				!matchesUrlPatterns(linkUrl, options.include, options.exclude)
+			) {
+				continue;
+			}
+
+			seen.add(linkUrl);
+			queue.push({ url: linkUrl, depth: depth + 1, referrer: url });
+		}
+	}
+
+	return pages;
+}
+
+export function formatCrawledPage(page: CrawledPage): IDataObject {
+	if (page.skipped !== undefined) {
+		return {
+			url: page.url,
+			depth: page.depth,
+			referrer: page.referrer,
+			skipped: true,
+			reason: page.skipped,
+		};
+	}
+	if (page.error !== undefined) {
+		return { url: page.url, depth: page.depth, referrer: page.referrer, error: page.error };
+	}
+
+	return {
+		url: page.url,
+		depth: page.depth,
+		referrer: page.referrer,
+		body: page.content,
+		country_code: page.country,
+	};
+}
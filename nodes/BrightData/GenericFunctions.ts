@@ -18,7 +18,8 @@ export async function brightdataApiRequest(
 
 	const options: any = {
 		method,
-		body,
+		// GET requests carry no body
+		...(method === 'GET' ? {} : { body }),
 		qs: query,
 		url: `https://api.brightdata.com${endpoint}`,
 		headers: {
@@ -36,3 +37,50 @@ export async function brightdataApiRequest(
 		throw error;
 	}
 }
+
+export type ActiveZone = {
+	name: string;
+	type: string;
+};
+
+export async function getActiveZoneList(
+	this: IExecuteFunctions | ILoadOptionsFunctions,
+): Promise<ActiveZone[]> {
+	return await this.helpers.httpRequestWithAuthentication.call(this, 'brightdataApi', {
+		method: 'GET',
+		url: 'https://api.brightdata.com/zone/get_active_zones',
+		json: true,
+	});
+}
+
+/**
+ * Runs `worker` for every index with at most `concurrency` calls in flight.
+ * Results keep the index order; the first error stops workers from picking up new indexes
+ * and aborts the signal passed to `worker`, so that the calls already in flight can stop early.
+ */
+export async function runWithConcurrency<T>(
+	count: number,
+	concurrency: number,
+	worker: (index: number, signal: AbortSignal) => Promise<T>,
+): Promise<T[]> {
+	const results: T[] = new Array(count);
+	const controller = new AbortController();
+	let nextIndex = 0;
+
+	const runWorker = async () => {
+		while (!controller.signal.aborted && nextIndex < count) {
+			const index = nextIndex++;
+			try {
+				results[index] = await worker(index, controller.signal);
+			} catch (error) {
+				controller.abort();
+				throw error;
+			}
+		}
+	};
+
+	const workerCount = Math.min(Math.max(Math.floor(concurrency) || 1, 1), count);
+	await Promise.all(Array.from({ length: workerCount }, runWorker));
+
+	return results;
+}
@@ -0,0 +1,241 @@
+import { DOMParser } from '@xmldom/xmldom';
+import { load } from 'cheerio';
+import { IDataObject } from 'n8n-workflow';
+import * as xpath from 'xpath';
+
+export type ExtractionField = {
+	key: string;
+	selectorType: 'css' | 'xpath';
+	selector: string;
+	returnValue: 'text' | 'html' | 'attribute';
+	attribute?: string;
+	returnArray?: boolean;
+};
+
+export function collapseWhitespace(text: string): string {
+	return text.replace(/\s+/g, ' ').trim();
+}
+
+export function hasSelector(html: string, selector: string): boolean {
+	return load(html)(selector).length > 0;
+}
+
+/**
+ * Parses HTML into a DOM document XPath can run on. The HTML is re-serialized as XML first
+ * and namespace declarations are dropped so that plain expressions like `//div` match.
+ */
+function parseXPathDocument(html: string): Node {
+	const $ = load(html);
+	$('[xmlns]').removeAttr('xmlns');
+
+	// xmldom implements the DOM interfaces `xpath` is typed against, except for events
+	return new DOMParser({ onError: () => {} }).parseFromString(
+		$.xml(),
+		'text/xml',
+	) as unknown as Node;
+}
+
+function getNodeValue(node: Node, field: ExtractionField): string | undefined {
+	// Attribute and text nodes selected by the expression itself, e.g. `//a/@href`
+	if (xpath.isAttribute(node) || xpath.isTextNode(node)) {
+		return node.nodeValue ?? undefined;
+	}
+
+	if (field.returnValue === 'attribute') {
+		return xpath.isElement(node)
+			? node.getAttribute(field.attribute ?? '') || undefined
+			: undefined;
+	}
+	if (field.returnValue === 'html') {
+		return Array.from(node.childNodes)
+			.map((child) => child.toString())
+			.join('');
+	}
+	return (node.textContent ?? '').trim();
+}
+
+function extractXPathField(document: Node, field: ExtractionField): string[] {
+	const selected = xpath.select(field.selector, document);
+	const nodes = Array.isArray(selected) ? selected : [selected];
+
+	return nodes
+		.map((node) =>
+			typeof node === 'object' && node !== null ? getNodeValue(node, field) : String(node),
+		)
+		.filter((value): value is string => value !== undefined);
+}
+
+function extractCssField($: ReturnType<typeof load>, field: ExtractionField): string[] {
+	return $(field.selector)
+		.toArray()
+		.map((element) => {
+			if (field.returnValue === 'attribute') {
+				return $(element).attr(field.attribute ?? '');
+			}
+			if (field.returnValue === 'html') {
+				return $(element).html() ?? undefined;
+			}
+			return $(element).text().trim();
+		})
+		.filter((value): value is string => value !== undefined);
+}
+
+/**
+ * Throws when a field selector does not parse, so that a typo fails the item before the
+ * request is paid for rather than after.
+ */
+export function validateExtractionFields(fields: ExtractionField[]): void {
+	let emptyDocument: Node | undefined;
+
+	for (const field of fields) {
+		try {
+			if (field.selectorType === 'xpath') {
+				emptyDocument ??= parseXPathDocument('');
+				xpath.select(field.selector, emptyDocument);
+			} else {
+				hasSelector('', field.selector);
+			}
+		} catch (error) {
+			throw new Error(
+				`Selector ${field.selector} of field ${field.key} is not a valid ${
+					field.selectorType === 'xpath' ? 'XPath expression' : 'CSS selector'
+				}: ${error.message}`,
+			);
+		}
+	}
+}
+
+/**
+ * Extracts each field from the HTML, returning `null` for single values without a match.
+ */
+export function extractFields(html: string, fields: ExtractionField[]): IDataObject {
+	const $ = load(html);
+	let xpathDocument: Node | undefined;
+	const extracted: IDataObject = {};
+
+	for (const field of fields) {
+		let values: string[];
+		if (field.selectorType === 'xpath') {
+			xpathDocument ??= parseXPathDocument(html);
+			values = extractXPathField(xpathDocument, field);
+		} else {
+			values = extractCssField($, field);
+		}
+
+		extracted[field.key] = field.returnArray ? values : (values[0] ?? null);
+	}
+
+	return extracted;
+}
+
+export function resolveUrl(href: string, baseUrl: string): string | undefined {
+	try {
+		return new URL(href, baseUrl).toString();
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Returns the unique absolute URLs linked from HTML, or from markdown when `isMarkdown` is set.
+ */
+export function extractLinks(
+	content: string,
+	baseUrl: string,
+	isMarkdown: boolean = false,
+): string[] {
+	let hrefs: string[];
+	let base = baseUrl;
+
+	if (isMarkdown) {
+		hrefs = Array.from(content.matchAll(/\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g)).map(
+			(match) => match[1],
+		);
+	} else {
+		const $ = load(content);
+		base = resolveUrl($('base[href]').attr('href') ?? '', baseUrl) ?? baseUrl;
+		hrefs = $('a[href]')
+			.toArray()
+			.map((element) => $(element).attr('href') ?? '');
+	}
+
+	const links = hrefs
+		.map((href) => href.trim())
+		.filter((href) => href && !/^(javascript|mailto|tel|data):/i.test(href))
+		.map((href) => resolveUrl(href, base))
+		.filter((link): link is string => link !== undefined);
+
+	return [...new Set(links)];
+}
+
+// Adds a meta tag value under its key, turning repeated keys such as `og:image` into arrays
+function addMetaValue(target: IDataObject, key: string, value: string): void {
+	const current = target[key];
+	if (current === undefined) {
+		target[key] = value;
+	} else if (Array.isArray(current)) {
+		(current as string[]).push(value);
+	} else {
+		target[key] = [current as string, value];
+	}
+}
+
+function parseJsonLd(text: string): IDataObject[] {
+	const json = text
+		.trim()
+		.replace(/^(<!--|\/\/\s*<!\[CDATA\[)/, '')
+		.replace(/(-->|\/\/\s*\]\]>)$/, '')
+		.trim();
+
+	try {
+		const parsed = JSON.parse(json);
+		return (Array.isArray(parsed) ? parsed : [parsed]).filter(
+			(block) => typeof block === 'object' && block !== null,
+		);
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Returns the title, description, canonical and alternate URLs, OpenGraph and Twitter tags
+ * and the JSON-LD blocks of a page. Relative URLs are resolved against `baseUrl`.
+ */
+export function extractMetadata(html: string, baseUrl: string): IDataObject {
+	const $ = load(html);
+	const openGraph: IDataObject = {};
+	const twitter: IDataObject = {};
+
+	$('meta').each((_, element) => {
+		const key = ($(element).attr('property') ?? $(element).attr('name') ?? '').trim();
+		const value = $(element).attr('content');
+		if (value === undefined) {
+			return;
+		}
+		if (/^og:/i.test(key)) {
+			addMetaValue(openGraph, key.slice(3), value);
+		} else if (/^twitter:/i.test(key)) {
+			addMetaValue(twitter, key.slice(8), value);
+		}
+	});
+
+	const canonical = $('link[rel~="canonical"]').first().attr('href');
+	const hreflang = $('link[rel~="alternate"][hreflang]')
+		.toArray()
+		.map((element) => ({
+			lang: $(element).attr('hreflang') ?? '',
+			url: resolveUrl($(element).attr('href') ?? '', baseUrl) ?? null,
+		}));
+
+	return {
+		title: $('head title').first().text().trim() || $('title').first().text().trim() || null,
+		description: $('meta[name="description" i]').first().attr('content') ?? null,
+		canonical: canonical ? (resolveUrl(canonical, baseUrl) ?? null) : null,
+		hreflang,
+		open_graph: openGraph,
+		twitter,
+		json_ld: $('script[type="application/ld+json"]')
+			.toArray()
+			.flatMap((element) => parseJsonLd($(element).text())),
+	};
+}
@@ -0,0 +1,117 @@
+export type MarkdownChunk = {
+	headingPath: string[];
+	content: string;
+};
+
+type MarkdownSection = {
+	headingPath: string[];
+	lines: string[];
+};
+
+/**
+ * Splits markdown into sections at every ATX heading (`#` to `######`), keeping the titles
+ * of the enclosing headings. Headings inside fenced code blocks are ignored.
+ */
+function splitSections(markdown: string): MarkdownSection[] {
+	const sections: MarkdownSection[] = [];
+	const headingStack: Array<{ level: number; title: string }> = [];
+	let current: MarkdownSection = { headingPath: [], lines: [] };
+	let inCodeBlock = false;
+
+	for (const line of markdown.split(/\r?\n/)) {
+		if (/^\s*(```|~~~)/.test(line)) {
+			inCodeBlock = !inCodeBlock;
+		}
+
+		const heading = inCodeBlock ? null : /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+		if (heading) {
+			sections.push(current);
+
+			const level = heading[1].length;
+			while (headingStack.length && headingStack[headingStack.length - 1].level >= level) {
+				headingStack.pop();
+			}
+			headingStack.push({ level, title: heading[2] });
+
+			current = { headingPath: headingStack.map(({ title }) => title), lines: [] };
+		}
+
+		current.lines.push(line);
+	}
+	sections.push(current);
+
+	return sections.filter((section) => section.lines.join('').trim());
+}
+
+// Cuts text longer than `maxSize`, preferring the last whitespace of each piece
+function cutText(text: string, maxSize: number): string[] {
+	const pieces: string[] = [];
+	let rest = text;
+
+	while (rest.length > maxSize) {
+		const whitespace = rest.slice(0, maxSize + 1).search(/\s\S*$/);
+		const cutAt = whitespace > maxSize / 2 ? whitespace : maxSize;
+		pieces.push(rest.slice(0, cutAt).trim());
+		rest = rest.slice(cutAt).trim();
+	}
+	if (rest) {
+		pieces.push(rest);
+	}
+
+	return pieces;
+}
+
+function splitText(text: string, maxSize: number, overlap: number): string[] {
+	// Leave room for the overlap carried over from the previous chunk
+	const pieceSize = Math.max(maxSize - overlap - 2, 1);
+	const pieces = text
+		.split(/\n{2,}/)
+		.map((paragraph) => paragraph.trim())
+		.filter((paragraph) => paragraph)
+		.flatMap((paragraph) => cutText(paragraph, pieceSize));
+
+	const chunks: string[] = [];
+	let current = '';
+
+	for (const piece of pieces) {
+		if (current && current.length + 2 + piece.length > maxSize) {
+			chunks.push(current);
+			// The overlap starts at a word boundary unless it is a single word
+			const tail =
+				overlap > 0
+					? current
+							.slice(-overlap)
+							.replace(/^\S*\s+/, '')
+							.trim()
+					: '';
+			current = tail ? `${tail}\n\n${piece}` : piece;
+		} else {
+			current = current ? `${current}\n\n${piece}` : piece;
+		}
+	}
+	if (current) {
+		chunks.push(current);
+	}
+
+	return chunks;
+}
+
+/**
+ * Splits markdown into chunks of at most `maxSize` characters that never span two sections.
+ * Consecutive chunks of a section share `overlap` characters.
+ */
+export function chunkMarkdown(
+	markdown: string,
+	maxSize: number,
+	overlap: number = 0,
+): MarkdownChunk[] {
+	const size = Math.max(maxSize, 1);
+	const chunkOverlap = Math.min(Math.max(overlap, 0), Math.floor(size / 2));
+
+	return splitSections(markdown).flatMap((section) =>
+		splitText(section.lines.join('\n'), size, chunkOverlap).map((content) => ({
+			headingPath: section.headingPath,
+			content,
+		})),
+	);
+}
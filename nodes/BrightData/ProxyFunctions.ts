@@ -0,0 +1,198 @@
+import * as http from 'http';
+import * as https from 'https';
+import { Socket } from 'net';
+import * as tls from 'tls';
+
+import { IDataObject } from 'n8n-workflow';
+
+export type ProxyCredentials = {
+	customerId: string;
+	zone: string;
+	password: string;
+	host: string;
+	port: number;
+};
+
+export type ProxyTargeting = {
+	country?: string;
+	city?: string;
+	session?: string;
+};
+
+export type ProxyRequest = {
+	method: string;
+	url: string;
+	headers: IDataObject;
+	body?: string;
+	timeout: number;
+	ignoreSslIssues?: boolean;
+};
+
+// Headers the super proxy sets when it rejects a request itself rather than the target
+const PROXY_ERROR_HEADERS = ['x-brd-error', 'x-luminati-error'];
+
+/**
+ * Builds the super proxy username, which carries the targeting flags,
+ * e.g. `brd-customer-hl_1234-zone-residential-country-us-city-newyork-session-abc`.
+ */
+export function buildProxyUsername(
+	credentials: Pick<ProxyCredentials, 'customerId' | 'zone'>,
+	targeting: ProxyTargeting,
+): string {
+	const customerId = credentials.customerId.trim().replace(/^brd-customer-/, '');
+	const parts = [`brd-customer-${customerId}`, `zone-${credentials.zone.trim()}`];
+
+	const country = targeting.country?.trim().toLowerCase();
+	const city = targeting.city
+		?.trim()
+		.toLowerCase()
+		.replace(/[^a-z0-9]/g, '');
+	const session = targeting.session?.trim().replace(/[^A-Za-z0-9_]/g, '');
+
+	if (city && !country) {
+		throw new Error('A city can only be targeted together with a country');
+	}
+	if (country) {
+		parts.push(`country-${country}`);
+	}
+	if (city) {
+		parts.push(`city-${city}`);
+	}
+	if (session) {
+		parts.push(`session-${session}`);
+	}
+
+	return parts.join('-');
+}
+
+function getProxyError(headers: http.IncomingHttpHeaders): string | undefined {
+	for (const name of PROXY_ERROR_HEADERS) {
+		const value = headers[name];
+		if (value) {
+			return Array.isArray(value) ? value.join(', ') : value;
+		}
+	}
+	return undefined;
+}
+
+function openTunnel(
+	credentials: ProxyCredentials,
+	target: URL,
+	proxyAuthorization: string,
+	timeout: number,
+): Promise<Socket> {
+	const authority = `${target.hostname}:${target.port || 443}`;
+
+	return new Promise((resolve, reject) => {
+		const request = http.request({
+			host: credentials.host,
+			port: credentials.port,
+			method: 'CONNECT',
+			path: authority,
+			headers: { Host: authority, 'Proxy-Authorization': proxyAuthorization },
+			timeout,
+		});
+
+		request.once('connect', (response, socket) => {
+			if (response.statusCode === 200) {
+				resolve(socket);
+				return;
+			}
+
+			socket.destroy();
+			const reason = getProxyError(response.headers) ?? response.statusMessage;
+			reject(new Error(`Proxy refused the tunnel: ${response.statusCode} ${reason}`));
+		});
+		request.once('timeout', () => request.destroy(new Error('Proxy connection timed out')));
+		request.once('error', reject);
+		request.end();
+	});
+}
+
+/**
+ * Sends a request through the super proxy and resolves with the response stream once the
+ * headers arrive. HTTP targets are forwarded, HTTPS targets go through a CONNECT tunnel.
+ */
+export async function openProxyRequest(
+	credentials: ProxyCredentials,
+	targeting: ProxyTargeting,
+	request: ProxyRequest,
+): Promise<http.IncomingMessage> {
+	const target = new URL(request.url);
+	if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+		throw new Error(`Unsupported protocol: ${target.protocol}`);
+	}
+
+	const username = buildProxyUsername(credentials, targeting);
+	const proxyAuthorization = `Basic ${Buffer.from(`${username}:${credentials.password}`).toString('base64')}`;
+
+	const headers: http.OutgoingHttpHeaders = { Host: target.host };
+	for (const [name, value] of Object.entries(request.headers)) {
+		headers[name] = value as string;
+	}
+	if (request.body !== undefined) {
+		headers['Content-Length'] = Buffer.byteLength(request.body);
+	}
+
+	let clientRequest: http.ClientRequest;
+	if (target.protocol === 'http:') {
+		clientRequest = http.request({
+			host: credentials.host,
+			port: credentials.port,
+			method: request.method,
+			path: target.toString(),
+			headers: { ...headers, 'Proxy-Authorization': proxyAuthorization },
+			timeout: request.timeout,
+		});
+	} else {
+		const tunnel = await openTunnel(credentials, target, proxyAuthorization, request.timeout);
+		try {
+			// Without an agent the request runs on the TLS connection opened inside the tunnel
+			clientRequest = https.request({
+				host: target.hostname,
+				port: target.port || 443,
+				method: request.method,
+				path: `${target.pathname}${target.search}`,
+				headers,
+				timeout: request.timeout,
+				createConnection: () =>
+					tls
+						.connect({
+							socket: tunnel,
+							servername: target.hostname,
+							rejectUnauthorized: !request.ignoreSslIssues,
+						})
+						.once('close', () => tunnel.destroy()),
+			});
+		} catch (error) {
+			tunnel.destroy();
+			throw error;
+		}
+		clientRequest.once('error', () => tunnel.destroy());
+	}
+
+	return await new Promise((resolve, reject) => {
+		clientRequest.once('response', (response) => {
+			const proxyError = getProxyError(response.headers);
+			if (proxyError) {
+				response.resume();
+				reject(new Error(`Proxy error: ${response.statusCode} ${proxyError}`));
+				return;
+			}
+			resolve(response);
+		});
+		clientRequest.once('timeout', () =>
+			clientRequest.destroy(new Error('Proxy request timed out')),
+		);
+		clientRequest.once('error', reject);
+		clientRequest.end(request.body);
+	});
+}
+
+export async function readResponseBody(response: http.IncomingMessage): Promise<Buffer> {
+	const chunks: Buffer[] = [];
+	for await (const chunk of response) {
+		chunks.push(chunk as Buffer);
+	}
+	return Buffer.concat(chunks);
+}
@@ -4,12 +4,8 @@ import type {
 	INodeListSearchResult,
 } from 'n8n-workflow';
 
-type ZoneSearchItem = {
-	name: string;
-	type: string;
-};
-
-type ZoneSearchResponse = ZoneSearchItem[];
+import { getActiveZoneList } from './GenericFunctions';
+import { formatZoneResults } from './ZoneFunctions';
 
 type DataSetItem = {
 	id: string;
@@ -21,21 +17,10 @@ type DataSetResponse = DataSetItem[];
 export async function getActiveZones(this: ILoadOptionsFunctions): Promise<INodeListSearchResult> {
 	await ensureZoneExists.call(this, 'n8n_unlocker');
 	await ensureZoneExists.call(this, 'n8n_serp', 'serp');
-	const responseData: ZoneSearchResponse = await this.helpers.httpRequestWithAuthentication.call(
-		this,
-		'brightdataApi',
-		{
-			method: 'GET',
-			url: 'https://api.brightdata.com/zone/get_active_zones',
-			json: true,
-		},
-	);
+	const responseData = await getActiveZoneList.call(this);
 
-	const results: INodeListSearchItems[] = responseData.map((item: ZoneSearchItem) => ({
-		name: item.name,
-		value: item.name,
-		type: item.type,
-	}));
+	const operation = this.getCurrentNodeParameter('operation') as string | undefined;
+	const results: INodeListSearchItems[] = formatZoneResults(responseData, operation);
 
 	return { results };
 }
@@ -116,17 +101,9 @@ export async function ensureZoneExists(
 	zoneType: string = 'unblocker',
 ): Promise<void> {
 	try {
-		const zones: ZoneSearchResponse = await this.helpers.httpRequestWithAuthentication.call(
-			this,
-			'brightdataApi',
-			{
-				method: 'GET',
-				url: 'https://api.brightdata.com/zone/get_active_zones',
-				json: true,
-			},
-		);
+		const zones = await getActiveZoneList.call(this);
 
-		const hasZone = zones.some((zone: ZoneSearchItem) => zone.name === zoneName);
+		const hasZone = zones.some((zone) => zone.name === zoneName);
 
 		if (!hasZone) {
 			await this.helpers.httpRequestWithAuthentication.call(this, 'brightdataApi', {
@@ -0,0 +1,256 @@
+import { IDataObject } from 'n8n-workflow';
+
+export type SearchEngine = 'google' | 'bing' | 'duckduckgo' | 'yandex' | 'baidu';
+
+export type GoogleSearchOptions = {
+	language?: string;
+	geoLocation?: string;
+	resultsPerPage?: number;
+	timeRange?: '' | 'hour' | 'day' | 'week' | 'month' | 'year' | 'custom';
+	dateFrom?: string;
+	dateTo?: string;
+	safeSearch?: boolean;
+	device?: 'desktop' | 'mobile';
+	searchType?: 'web' | 'images' | 'news' | 'shopping' | 'videos';
+};
+
+type SearchEngineDefinition = {
+	baseUrl: string;
+	queryParam: string;
+	// Returns the pagination query parameters for a 1-based page number
+	pagination: (page: number, pageSize: number) => IDataObject;
+};
+
+const searchEngines: { [engine in SearchEngine]: SearchEngineDefinition } = {
+	google: {
+		baseUrl: 'https://www.google.com/search',
+		queryParam: 'q',
+		pagination: (page, pageSize) => ({ start: (page - 1) * pageSize }),
+	},
+	bing: {
+		baseUrl: 'https://www.bing.com/search',
+		queryParam: 'q',
+		pagination: (page, pageSize) => ({ first: (page - 1) * pageSize + 1 }),
+	},
+	duckduckgo: {
+		baseUrl: 'https://duckduckgo.com/',
+		queryParam: 'q',
+		pagination: (page, pageSize) => ({ s: (page - 1) * pageSize }),
+	},
+	yandex: {
+		baseUrl: 'https://yandex.com/search/',
+		queryParam: 'text',
+		pagination: (page) => ({ p: page - 1 }),
+	},
+	baidu: {
+		baseUrl: 'https://www.baidu.com/s',
+		queryParam: 'wd',
+		pagination: (page, pageSize) => ({ pn: (page - 1) * pageSize }),
+	},
+};
+
+const googleTimeRanges = {
+	hour: 'qdr:h',
+	day: 'qdr:d',
+	week: 'qdr:w',
+	month: 'qdr:m',
+	year: 'qdr:y',
+};
+
+const googleSearchTypes = {
+	images: 'isch',
+	news: 'nws',
+	shopping: 'shop',
+	videos: 'vid',
+};
+
+// Google expects custom date ranges as M/D/YYYY
+function formatGoogleDate(date: string): string {
+	const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(date);
+	if (!match) {
+		throw new Error(`Invalid date: ${date}`);
+	}
+
+	return `${Number(match[2])}/${Number(match[3])}/${match[1]}`;
+}
+
+export function buildGoogleSearchParams(options: GoogleSearchOptions): IDataObject {
+	const params: IDataObject = {};
+
+	if (options.language) {
+		params.hl = options.language;
+	}
+	if (options.geoLocation) {
+		params.gl = options.geoLocation;
+	}
+	if (options.resultsPerPage) {
+		params.num = options.resultsPerPage;
+	}
+	if (options.timeRange === 'custom') {
+		const range = ['cdr:1'];
+		if (options.dateFrom) {
+			range.push(`cd_min:${formatGoogleDate(options.dateFrom)}`);
+		}
+		if (options.dateTo) {
+			range.push(`cd_max:${formatGoogleDate(options.dateTo)}`);
+		}
+		params.tbs = range.join(',');
+	} else if (options.timeRange) {
+		params.tbs = googleTimeRanges[options.timeRange];
+	}
+	if (options.safeSearch !== undefined) {
+		params.safe = options.safeSearch ? 'active' : 'off';
+	}
+	if (options.device === 'mobile') {
+		params.brd_mobile = 1;
+	}
+	if (options.searchType && options.searchType !== 'web') {
+		params.tbm = googleSearchTypes[options.searchType];
+	}
+
+	return params;
+}
+
+export function buildSearchUrl(
+	engine: SearchEngine,
+	query: string,
+	page: number = 1,
+	extraParams: IDataObject = {},
+): string {
+	const definition = searchEngines[engine];
+	if (!definition) {
+		throw new Error(`Unsupported search engine: ${engine}`);
+	}
+
+	const pageSize = (extraParams.num as number) || 10;
+	const params: IDataObject = {
+		[definition.queryParam]: query,
+		...definition.pagination(Math.max(page, 1), pageSize),
+		...extraParams,
+		brd_json: 1,
+	};
+
+	const queryString = Object.entries(params)
+		.map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+		.join('&');
+
+	return `${definition.baseUrl}?${queryString}`;
+}
+
+function parseSerpPayload(responseData: any): IDataObject | string {
+	if (typeof responseData !== 'string') {
+		return responseData ?? {};
+	}
+
+	try {
+		const parsed = JSON.parse(responseData);
+		return typeof parsed === 'object' && parsed !== null ? parsed : responseData;
+	} catch {
+		return responseData;
+	}
+}
+
+function normalizeOrganicResult(result: IDataObject, index: number): IDataObject {
+	const link = (result.link ?? result.url ?? result.href ?? '') as string;
+	let displayLink = (result.display_link ?? result.displayed_link ?? '') as string;
+	if (!displayLink && link) {
+		try {
+			displayLink = new URL(link).hostname;
+		} catch {
+			displayLink = link;
+		}
+	}
+
+	// Engine-specific fields such as `global_rank` or `extensions` are kept next to the common ones
+	return {
+		...result,
+		rank: (result.rank ?? result.position ?? index + 1) as number,
+		title: (result.title ?? '') as string,
+		link,
+		display_link: displayLink,
+		description: (result.description ?? result.snippet ?? result.text ?? '') as string,
+	};
+}
+
+/**
+ * Converts the parsed SERP payload of any supported engine to a common shape.
+ * Payloads the SERP parser could not handle are returned as `body` with no organic results.
+ */
+export function normalizeSerpResponse(
+	engine: SearchEngine,
+	responseData: any,
+	query: string,
+	page: number,
+): IDataObject {
+	const payload = parseSerpPayload(responseData);
+
+	if (typeof payload === 'string') {
+		return {
+			engine,
+			query,
+			page,
+			organic: [],
+			body: payload,
+		};
+	}
+
+	const organic = Array.isArray(payload.organic) ? (payload.organic as IDataObject[]) : [];
+
+	return {
+		...payload,
+		engine,
+		query,
+		page,
+		organic: organic.map(normalizeOrganicResult),
+	};
+}
+
+export function isEmptySerpResponse(serp: IDataObject): boolean {
+	const organic = serp.organic as IDataObject[];
+	return !organic.length && !serp.body && !serp.general;
+}
+
+/**
+ * Flattens a normalized SERP into one entry per organic result.
+ */
+export function splitOrganicResults(serp: IDataObject): IDataObject[] {
+	return (serp.organic as IDataObject[]).map((result) => ({
+		rank: result.rank,
+		title: result.title,
+		link: result.link,
+		display_link: result.display_link,
+		snippet: result.description,
+		engine: serp.engine,
+		query: serp.query,
+		page: result.page ?? serp.page,
+		country_code: result.country_code ?? serp.country_code,
+	}));
+}
+
+function getResultKey(link: string): string {
+	return link.replace(/#.*$/, '').replace(/\/$/, '');
+}
+
+/**
+ * Returns the organic results of a page whose links were not seen on a previous page.
+ * `offset` is the number of organic results on previous pages and keeps the rank absolute.
+ */
+export function collectUniqueResults(
+	serp: IDataObject,
+	seenLinks: Set<string>,
+	offset: number,
+): IDataObject[] {
+	const uniqueResults: IDataObject[] = [];
+
+	(serp.organic as IDataObject[]).forEach((result, index) => {
+		const key = getResultKey(result.link as string);
+		if (!key || seenLinks.has(key)) {
+			return;
+		}
+
+		seenLinks.add(key);
+		uniqueResults.push({ ...result, rank: offset + index + 1, page: serp.page });
+	});
+
+	return uniqueResults;
+}
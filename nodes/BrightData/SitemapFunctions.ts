@@ -0,0 +1,184 @@
+import { load } from 'cheerio';
+import { IDataObject } from 'n8n-workflow';
+import { gunzipSync } from 'zlib';
+
+import { matchesUrlPatterns } from './CrawlFunctions';
+
+export type SitemapUrl = {
+	url: string;
+	lastmod?: string;
+	changefreq?: string;
+	priority?: string;
+	sitemap: string;
+};
+
+export type SitemapFailure = {
+	sitemap: string;
+	error?: string;
+	// Why the sitemap was not fetched
+	skipped?: string;
+};
+
+export type SitemapOptions = {
+	maxUrls: number;
+	include: RegExp[];
+	exclude: RegExp[];
+	modifiedAfter?: string;
+	modifiedBefore?: string;
+};
+
+// Sitemap indexes may point to other indexes, stop following them after a few levels
+const MAX_SITEMAP_DEPTH = 3;
+
+/**
+ * Decodes a fetched sitemap, which may be gzipped whatever its extension or content type.
+ */
+export function decodeSitemapContent(data: Buffer): string {
+	if (data.length > 2 && data[0] === 0x1f && data[1] === 0x8b) {
+		return gunzipSync(data).toString('utf8');
+	}
+	return data.toString('utf8');
+}
+
+export function parseRobotsSitemaps(robotsTxt: string, baseUrl: string): string[] {
+	const sitemaps: string[] = [];
+
+	for (const line of robotsTxt.split(/\r?\n/)) {
+		const match = /^\s*sitemap\s*:\s*(\S+)/i.exec(line);
+		if (match) {
+			try {
+				sitemaps.push(new URL(match[1], baseUrl).toString());
+			} catch {}
+		}
+	}
+
+	return [...new Set(sitemaps)];
+}
+
+/**
+ * Reads a sitemap or sitemap index, returning the child sitemaps and the page URLs it lists.
+ */
+export function parseSitemap(
+	xml: string,
+	sitemapUrl: string,
+): { sitemaps: string[]; urls: SitemapUrl[] } {
+	const $ = load(xml, { xml: true });
+	const text = (element: any, name: string) =>
+		$(element).children(name).first().text().trim() || undefined;
+
+	const sitemaps = $('sitemapindex > sitemap')
+		.toArray()
+		.map((element) => text(element, 'loc'))
+		.filter((loc): loc is string => loc !== undefined);
+
+	const urls = $('urlset > url')
+		.toArray()
+		.map((element) => ({
+			url: text(element, 'loc') ?? '',
+			lastmod: text(element, 'lastmod'),
+			changefreq: text(element, 'changefreq'),
+			priority: text(element, 'priority'),
+			sitemap: sitemapUrl,
+		}))
+		.filter((entry) => entry.url);
+
+	return { sitemaps, urls };
+}
+
+/**
+ * Whether a URL passes the patterns and lastmod range. URLs without lastmod pass the range.
+ */
+export function matchesSitemapFilters(entry: SitemapUrl, options: SitemapOptions): boolean {
+	if (!matchesUrlPatterns(entry.url, options.include, options.exclude)) {
+		return false;
+	}
+
+	const lastmod = entry.lastmod ? Date.parse(entry.lastmod) : NaN;
+	if (Number.isNaN(lastmod)) {
+		return true;
+	}
+	if (options.modifiedAfter && lastmod < Date.parse(options.modifiedAfter)) {
+		return false;
+	}
+	if (options.modifiedBefore && lastmod > Date.parse(options.modifiedBefore)) {
+		return false;
+	}
+	return true;
+}
+
+/**
+ * Expands the sitemaps, following sitemap indexes, until `maxUrls` matching URLs are found.
+ * The given sitemaps must load, child sitemaps that fail are returned with their error.
+ * When `shouldStop` accepts an error, the walk ends and the sitemaps left are returned as skipped.
+ */
+export async function collectSitemapUrls(
+	sitemapUrls: string[],
+	options: SitemapOptions,
+	fetchSitemap: (url: string) => Promise<string>,
+	shouldStop: (error: any) => boolean = () => false,
+): Promise<{ urls: SitemapUrl[]; failures: SitemapFailure[] }> {
+	const queue = sitemapUrls.map((url) => ({ url, depth: 0 }));
+	const seenSitemaps = new Set(sitemapUrls);
+	const seenUrls = new Set<string>();
+	const urls: SitemapUrl[] = [];
+	const failures: SitemapFailure[] = [];
+
+	while (queue.length && urls.length < options.maxUrls) {
+		const { url, depth } = queue.shift()!;
+
+		let sitemap: ReturnType<typeof parseSitemap>;
+		try {
+			sitemap = parseSitemap(await fetchSitemap(url), url);
+		} catch (error) {
+			if (shouldStop(error)) {
+				for (const pending of [{ url }, ...queue]) {
+					failures.push({ sitemap: pending.url, skipped: error.message });
+				}
+				break;
+			}
+			if (depth === 0) {
+				throw error;
+			}
+			failures.push({ sitemap: url, error: error.message });
+			continue;
+		}
+
+		if (depth < MAX_SITEMAP_DEPTH) {
+			for (const child of sitemap.sitemaps) {
+				if (!seenSitemaps.has(child)) {
+					seenSitemaps.add(child);
+					queue.push({ url: child, depth: depth + 1 });
+				}
+			}
+		}
+
+		for (const entry of sitemap.urls) {
+			if (urls.length >= options.maxUrls) {
+				break;
+			}
+			if (!seenUrls.has(entry.url) && matchesSitemapFilters(entry, options)) {
+				seenUrls.add(entry.url);
+				urls.push(entry);
+			}
+		}
+	}
+
+	return { urls, failures };
+}
+
+export function formatSitemapUrl(entry: SitemapUrl): IDataObject {
+	const json: IDataObject = { url: entry.url, sitemap: entry.sitemap };
+	for (const key of ['lastmod', 'changefreq', 'priority'] as const) {
+		if (entry[key] !== undefined) {
+			json[key] = entry[key];
+		}
+	}
+	return json;
+}
+
+export function formatSitemapFailure(failure: SitemapFailure): IDataObject {
+	if (failure.skipped !== undefined) {
+		return { sitemap: failure.sitemap, skipped: true, reason: failure.skipped };
+	}
+	return { sitemap: failure.sitemap, error: failure.error };
+}
@@ -0,0 +1,171 @@
+import { CheerioAPI, load } from 'cheerio';
+import { Element } from 'domhandler';
+import { IDataObject } from 'n8n-workflow';
+
+import { collapseWhitespace } from './HtmlFunctions';
+
+export type TableOptions = {
+	tableSelector?: string;
+	tableIndex?: number;
+	headerRows?: number;
+};
+
+// Each row of the grid has one cell per column, with spanned cells repeated
+type TableGrid = { cells: string[]; isHeader: boolean; inHead: boolean }[];
+
+function getSpan(value: string | undefined): number {
+	const span = parseInt(value ?? '', 10);
+	return Number.isFinite(span) && span > 0 ? Math.min(span, 1000) : 1;
+}
+
+/**
+ * Returns the data tables of the page, or the tables matched by the selector. Tables holding
+ * other tables are page layout and are skipped unless the selector picks them.
+ */
+function findTables($: CheerioAPI, selector: string | undefined): Element[] {
+	if (!selector) {
+		return $('table')
+			.toArray()
+			.filter((table) => !$(table).find('table').length);
+	}
+
+	return $(selector)
+		.toArray()
+		.map((element) => ($(element).is('table') ? element : $(element).find('table').get(0)))
+		.filter(
+			(table, index, tables): table is Element =>
+				table !== undefined && tables.indexOf(table) === index,
+		);
+}
+
+function buildGrid($: CheerioAPI, table: Element): TableGrid {
+	// Rows of nested tables belong to their own table
+	const rows = $(table)
+		.find('tr')
+		.filter((_, row) => $(row).closest('table').get(0) === table)
+		.toArray();
+
+	const grid: TableGrid = [];
+	const pendingRowSpans: { [column: number]: { value: string; rows: number } } = {};
+
+	for (const row of rows) {
+		const cells: string[] = [];
+		const rowCells = $(row).children('th, td').toArray();
+		let column = 0;
+
+		const fillRowSpans = () => {
+			while (pendingRowSpans[column]) {
+				const pending = pendingRowSpans[column];
+				cells[column] = pending.value;
+				if (--pending.rows === 0) {
+					delete pendingRowSpans[column];
+				}
+				column++;
+			}
+		};
+
+		for (const cell of rowCells) {
+			fillRowSpans();
+			const value = collapseWhitespace($(cell).text());
+			const colSpan = getSpan($(cell).attr('colspan'));
+			const rowSpan = getSpan($(cell).attr('rowspan'));
+
+			for (let offset = 0; offset < colSpan; offset++) {
+				cells[column] = value;
+				if (rowSpan > 1) {
+					pendingRowSpans[column] = { value, rows: rowSpan - 1 };
+				}
+				column++;
+			}
+		}
+		fillRowSpans();
+
+		grid.push({
+			cells: Array.from(cells, (cell) => cell ?? ''),
+			isHeader: rowCells.length > 0 && rowCells.every((cell) => $(cell).is('th')),
+			inHead: $(row).closest('thead').length > 0,
+		});
+	}
+
+	return grid;
+}
+
+/**
+ * Without an explicit count the header is the `thead` rows, or else the leading rows made
+ * only of `th` cells.
+ */
+function getHeaderRowCount(grid: TableGrid, headerRows: number | undefined): number {
+	if (headerRows !== undefined) {
+		return Math.min(headerRows, grid.length);
+	}
+
+	const headRows = grid.filter((row) => row.inHead).length;
+	if (headRows) {
+		return headRows;
+	}
+
+	let count = 0;
+	while (count < grid.length && grid[count].isHeader) {
+		count++;
+	}
+	// A table made only of th cells has no data rows to key
+	return count === grid.length ? Math.min(count, 1) : count;
+}
+
+/**
+ * Names each column after its header cells, joining the labels of stacked header rows
+ * so that a "Price" cell spanning "Min" and "Max" gives "Price Min" and "Price Max".
+ */
+function getColumnNames(headerRows: string[][], columnCount: number): string[] {
+	const seen: { [name: string]: number } = {};
+
+	return Array.from({ length: columnCount }, (_, column) => {
+		const labels: string[] = [];
+		for (const row of headerRows) {
+			const label = row[column];
+			if (label && labels[labels.length - 1] !== label) {
+				labels.push(label);
+			}
+		}
+
+		const name = labels.join(' ') || `Column ${column + 1}`;
+		seen[name] = (seen[name] ?? 0) + 1;
+		return seen[name] > 1 ? `${name} ${seen[name]}` : name;
+	});
+}
+
+/**
+ * Returns the rows of a table of the page as objects keyed by column name.
+ * Row and column spans are resolved by repeating the spanned value in every cell it covers.
+ */
+export function extractTable(html: string, options: TableOptions = {}): IDataObject[] {
+	const $ = load(html);
+	const tables = findTables($, options.tableSelector);
+	const tableIndex = options.tableIndex ?? 0;
+	const table = tables[tableIndex];
+	if (!table) {
+		throw new Error(
+			tables.length
+				? `Table index ${tableIndex} is out of range, the page has ${tables.length} matching tables`
+				: 'No table found on the page',
+		);
+	}
+
+	const grid = buildGrid($, table);
+	const headerRowCount = getHeaderRowCount(grid, options.headerRows);
+	const columnCount = Math.max(0, ...grid.map((row) => row.cells.length));
+	const columnNames = getColumnNames(
+		grid.slice(0, headerRowCount).map((row) => row.cells),
+		columnCount,
+	);
+
+	return grid
+		.slice(headerRowCount)
+		.filter((row) => row.cells.some((cell) => cell))
+		.map((row) =>
+			columnNames.reduce((item, name, column) => {
+				item[name] = row.cells[column] ?? '';
+				return item;
+			}, {} as IDataObject),
+		);
+}
@@ -0,0 +1,698 @@
+import { IDataObject, IExecuteFunctions, INode, NodeOperationError, sleep } from 'n8n-workflow';
+
+import {
+	getCountryStatsMap,
+	recordCountryResult,
+	sortCountriesByStats,
+} from './CountryStatsFunctions';
+import {
+	RequestBudget,
+	consumeRequestBudget,
+	createBudgetError,
+	createRequestBudget,
+} from './BudgetFunctions';
+import { brightdataApiRequest } from './GenericFunctions';
+import { AsyncPollingOptions, requestAsyncResult } from './AsyncFunctions';
+import { hasSelector } from './HtmlFunctions';
+
+export type WorkingCountryMap = {
+	[memoryKey: string]: { country: string; updatedAt: number };
+};
+
+export type CountryRotationState = {
+	usePersistence: boolean;
+	staticData: IDataObject;
+	// Last working country per memory key, backed by the static data when persistence is on
+	workingCountries: WorkingCountryMap;
+	// Hours after which a remembered country expires, 0 keeps it forever
+	memoryTtl: number;
+	// Half-life in hours of the per-country statistics, statistics are off when undefined
+	statsHalfLife?: number;
+	// API calls left for the whole execution, unlimited when undefined
+	apiCallBudget?: RequestBudget;
+};
+
+export type CountryMemoryMode = 'global' | 'hostname' | 'group';
+
+// Memory key shared by every request when countries are not remembered per site
+export const GLOBAL_MEMORY_KEY = '*';
+
+export type RetryOptions = {
+	maxRetries: number;
+	baseDelay: number;
+	maxDelay: number;
+};
+
+export type CountryRotationOptions = {
+	primaryCountry: string;
+	additionalCountries: string[];
+	memoryKey?: string;
+	retry?: RetryOptions;
+	// Receives one entry per try when set
+	attempts?: IDataObject[];
+	// Extra `httpRequest` options, e.g. to receive the full binary response
+	requestOptions?: IDataObject;
+	// Max number of tries of the call, over every retry and country
+	maxAttempts?: number;
+	// Sends each try through the async unblocker and polls for its result
+	asyncPolling?: AsyncPollingOptions;
+	// Aborted once the execution has failed, so that no new request is sent
+	signal?: AbortSignal;
+};
+
+// transient: retry on the same country, blocked: move on to the next country, fatal: give up
+export type FailureKind = 'transient' | 'blocked' | 'fatal';
+
+const transientErrorCodes = [
+	'ECONNABORTED',
+	'ECONNRESET',
+	'EAI_AGAIN',
+	'EPIPE',
+	'ESOCKETTIMEDOUT',
+	'ETIMEDOUT',
+];
+
+function getErrorStatus(error: any): number | undefined {
+	const status = Number(
+		error?.httpCode ??
+			error?.response?.status ??
+			error?.statusCode ??
+			error?.cause?.response?.status ??
+			error?.cause?.status,
+	);
+	return Number.isInteger(status) && status > 0 ? status : undefined;
+}
+
+/**
+ * Error for a response rejected for its content, e.g. an empty or blocked page.
+ * It is the only error without an HTTP status that moves on to the next country.
+ */
+export function createRejectedResponseError(node: INode, message: string): NodeOperationError {
+	const error = new NodeOperationError(node, message);
+	error.context.rejectedResponse = true;
+	return error;
+}
+
+export function classifyFailure(error: any): FailureKind {
+	const status = getErrorStatus(error);
+	if (status === 429 || (status !== undefined && status >= 500)) {
+		return 'transient';
+	}
+	if (status === 403 || status === 451) {
+		return 'blocked';
+	}
+	if (status !== undefined) {
+		return 'fatal';
+	}
+
+	const code = error?.code ?? error?.cause?.code;
+	if (transientErrorCodes.includes(code) || /timeout|timed out/i.test(error?.message ?? '')) {
+		return 'transient';
+	}
+
+	// Responses rejected for their content (empty or blocked pages)
+	if (error?.context?.rejectedResponse === true) {
+		return 'blocked';
+	}
+
+	// Bugs and configuration errors, which would fail the same way in every country
+	return 'fatal';
+}
+
+function getRetryAfter(error: any): number | undefined {
+	const headers = error?.response?.headers ?? error?.cause?.response?.headers;
+	const value = headers?.['retry-after'];
+	if (value === undefined || value === null || value === '') {
+		return undefined;
+	}
+
+	const seconds = Number(value);
+	if (Number.isFinite(seconds)) {
+		return Math.max(seconds * 1000, 0);
+	}
+
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Exponential backoff with jitter, unless the API asked for a specific delay with `Retry-After`.
+ */
+export function getRetryDelay(attempt: number, retry: RetryOptions, error?: any): number {
+	const retryAfter = getRetryAfter(error);
+	if (retryAfter !== undefined) {
+		return retryAfter;
+	}
+
+	const delay = Math.min(retry.baseDelay * 2 ** attempt, retry.maxDelay);
+	return Math.round(delay / 2 + (Math.random() * delay) / 2);
+}
+
+export function parseCountryList(countries: string): string[] {
+	return countries
+		.split(/[ ,;]+/)
+		.map((c) => c.trim())
+		.filter((c) => c);
+}
+
+/**
+ * Returns the remembered working countries, migrating the single country kept by older versions.
+ */
+export function loadWorkingCountries(
+	staticData: IDataObject,
+	usePersistence: boolean,
+): WorkingCountryMap {
+	if (!usePersistence) {
+		return {};
+	}
+
+	if (typeof staticData.workingCountries !== 'object' || staticData.workingCountries === null) {
+		staticData.workingCountries = {};
+	}
+	const workingCountries = staticData.workingCountries as WorkingCountryMap;
+
+	if (staticData.lastWorkingCountry) {
+		workingCountries[GLOBAL_MEMORY_KEY] ??= {
+			country: staticData.lastWorkingCountry as string,
+			updatedAt: Date.now(),
+		};
+		delete staticData.lastWorkingCountry;
+	}
+
+	return workingCountries;
+}
+
+export function getCountryMemoryKey(mode: CountryMemoryMode, url: string, group: string): string {
+	if (mode === 'hostname') {
+		try {
+			return new URL(url).hostname || GLOBAL_MEMORY_KEY;
+		} catch {
+			return GLOBAL_MEMORY_KEY;
+		}
+	}
+	if (mode === 'group') {
+		return group || GLOBAL_MEMORY_KEY;
+	}
+	return GLOBAL_MEMORY_KEY;
+}
+
+export function getWorkingCountry(
+	state: CountryRotationState,
+	memoryKey: string = GLOBAL_MEMORY_KEY,
+): string | undefined {
+	const entry = state.workingCountries[memoryKey];
+	if (!entry) {
+		return undefined;
+	}
+
+	if (state.memoryTtl > 0 && Date.now() - entry.updatedAt > state.memoryTtl * 3600000) {
+		delete state.workingCountries[memoryKey];
+		return undefined;
+	}
+	return entry.country;
+}
+
+export function getCountriesToTry(
+	state: CountryRotationState,
+	options: CountryRotationOptions,
+): string[] {
+	let countriesToTry = [options.primaryCountry];
+	const workingCountry = getWorkingCountry(state, options.memoryKey);
+	if (workingCountry) {
+		countriesToTry = [workingCountry, ...countriesToTry.filter((c) => c !== workingCountry)];
+	}
+
+	countriesToTry = [...new Set([...countriesToTry, ...options.additionalCountries])];
+
+	if (state.statsHalfLife !== undefined) {
+		return sortCountriesByStats(countriesToTry, getCountryStatsMap(state.staticData));
+	}
+	return countriesToTry;
+}
+
+// The status of the target, when the response tells it: a full response or the JSON format
+function getResponseStatus(responseData: any, fullResponse: boolean): number | null {
+	const status = Number(
+		fullResponse
+			? responseData?.statusCode
+			: typeof responseData === 'object' && !Array.isArray(responseData)
+				? responseData?.status_code
+				: undefined,
+	);
+	return Number.isInteger(status) && status > 0 ? status : null;
+}
+
+function getResponseSize(responseData: any): number {
+	if (responseData === undefined || responseData === null) {
+		return 0;
+	}
+	if (typeof responseData === 'string') {
+		return Buffer.byteLength(responseData);
+	}
+	if (Buffer.isBuffer(responseData)) {
+		return responseData.length;
+	}
+	if (Buffer.isBuffer(responseData.body)) {
+		return responseData.body.length;
+	}
+	return Buffer.byteLength(JSON.stringify(responseData));
+}
+
+function recordStats(
+	state: CountryRotationState,
+	country: string,
+	success: boolean,
+	latency: number,
+): void {
+	if (state.statsHalfLife !== undefined) {
+		recordCountryResult(
+			getCountryStatsMap(state.staticData),
+			country,
+			success,
+			latency,
+			state.statsHalfLife,
+		);
+	}
+}
+
+/**
+ * Sends a `/request` call for each candidate country until `handleResponse` accepts one.
+ * `handleResponse` throws to reject a response, which moves on to the next country.
+ * Transient API failures are retried on the same country, other API errors are not rotated.
+ */
+export async function requestWithCountryRotation<T>(
+	this: IExecuteFunctions,
+	state: CountryRotationState,
+	options: CountryRotationOptions,
+	buildBody: (country: string) => IDataObject,
+	handleResponse: (responseData: any, country: string) => T,
+): Promise<T> {
+	const retry = options.retry ?? { maxRetries: 0, baseDelay: 0, maxDelay: 0 };
+	const fullResponse = options.requestOptions?.returnFullResponse === true;
+	const attemptBudget = createRequestBudget(options.maxAttempts);
+	let lastError: any;
+
+	for (const country of getCountriesToTry(state, options)) {
+		for (let attempt = 0; ; attempt++) {
+			if (options.signal?.aborted) {
+				throw new NodeOperationError(this.getNode(), 'Stopped because another item failed');
+			}
+			if (!consumeRequestBudget(attemptBudget)) {
+				throw createBudgetError(
+					this.getNode(),
+					`Reached the limit of ${attemptBudget!.limit} attempts for this request`,
+					'maxCountryAttempts',
+				);
+			}
+			if (!consumeRequestBudget(state.apiCallBudget)) {
+				throw createBudgetError(
+					this.getNode(),
+					`Reached the limit of ${state.apiCallBudget!.limit} API calls for this execution`,
+					'maxApiCalls',
+				);
+			}
+
+			const startedAt = Date.now();
+			let responseData: any;
+			try {
+				responseData = options.asyncPolling
+					? await requestAsyncResult.call(this, buildBody(country), options.asyncPolling, {
+							requestOptions: options.requestOptions,
+							apiCallBudget: state.apiCallBudget,
+							signal: options.signal,
+						})
+					: await brightdataApiRequest.call(
+							this,
+							'POST',
+							'/request',
+							buildBody(country),
+							{},
+							{},
+							options.requestOptions,
+						);
+
+				if (!responseData || responseData === '') {
+					throw createRejectedResponseError(this.getNode(), 'Raw response is empty');
+				}
+
+				const result = handleResponse(responseData, country);
+				recordStats(state, country, true, Date.now() - startedAt);
+				options.attempts?.push({
+					country,
+					retry: attempt,
+					duration_ms: Date.now() - startedAt,
+					status: getResponseStatus(responseData, fullResponse),
+					success: true,
+					bytes: getResponseSize(responseData),
+				});
+
+				// If we reached here, data is NOT empty
+				state.workingCountries[options.memoryKey ?? GLOBAL_MEMORY_KEY] = {
+					country,
+					updatedAt: Date.now(),
+				};
+
+				return result;
+			} catch (error) {
+				lastError = error;
+				const failure = classifyFailure(error);
+				options.attempts?.push({
+					country,
+					retry: attempt,
+					duration_ms: Date.now() - startedAt,
+					status: getErrorStatus(error) ?? getResponseStatus(responseData, fullResponse),
+					success: false,
+					reason: error.message,
+					bytes: getResponseSize(responseData),
+				});
+
+				if (failure === 'transient' && attempt < retry.maxRetries) {
+					await sleep(getRetryDelay(attempt, retry, error));
+					continue;
+				}
+				if (failure !== 'fatal') {
+					recordStats(state, country, false, Date.now() - startedAt);
+				}
+				if (failure !== 'blocked') {
+					throw error;
+				}
+				break;
+			}
+		}
+	}
+
+	throw lastError || new NodeOperationError(this.getNode(), 'All countries failed to return data');
+}
+
+export type NameValueCollection = {
+	parameters?: Array<{ name: string; value: string }>;
+};
+
+export type TargetBodyType = 'json' | 'form' | 'raw';
+
+function findHeaderName(headers: IDataObject, name: string): string | undefined {
+	return Object.keys(headers).find((key) => key.toLowerCase() === name.toLowerCase());
+}
+
+/**
+ * Merges the header and cookie collections into the headers sent to the target URL.
+ */
+export function buildTargetHeaders(
+	headers: NameValueCollection,
+	cookies: NameValueCollection,
+): IDataObject {
+	const targetHeaders: IDataObject = {};
+	for (const { name, value } of headers.parameters ?? []) {
+		if (name) {
+			targetHeaders[name] = value;
+		}
+	}
+
+	const cookiePairs = (cookies.parameters ?? []).filter(({ name }) => name);
+	if (cookiePairs.length) {
+		const cookieHeader = cookiePairs.map(({ name, value }) => `${name}=${value}`).join('; ');
+		const headerName = findHeaderName(targetHeaders, 'cookie') ?? 'Cookie';
+		targetHeaders[headerName] = targetHeaders[headerName]
+			? `${targetHeaders[headerName]}; ${cookieHeader}`
+			: cookieHeader;
+	}
+
+	return targetHeaders;
+}
+
+/**
+ * Serializes the body sent to the target URL and sets its content type unless one was given.
+ */
+export function applyTargetBody(
+	targetHeaders: IDataObject,
+	bodyType: TargetBodyType,
+	content: string | IDataObject | NameValueCollection,
+	rawContentType: string = 'text/plain',
+): string {
+	let body: string;
+	let contentType: string;
+
+	if (bodyType === 'json') {
+		body = typeof content === 'string' ? content : JSON.stringify(content);
+		JSON.parse(body);
+		contentType = 'application/json';
+	} else if (bodyType === 'form') {
+		const params = new URLSearchParams();
+		for (const { name, value } of (content as NameValueCollection).parameters ?? []) {
+			params.append(name, value);
+		}
+		body = params.toString();
+		contentType = 'application/x-www-form-urlencoded';
+	} else {
+		body = content as string;
+		contentType = rawContentType;
+	}
+
+	if (!findHeaderName(targetHeaders, 'content-type')) {
+		targetHeaders['Content-Type'] = contentType;
+	}
+
+	return body;
+}
+
+export type UnblockerOptions = {
+	renderJs?: boolean;
+	expectElement?: string;
+	expectText?: string;
+	device?: 'desktop' | 'mobile';
+	includeResponseHeaders?: boolean;
+};
+
+/**
+ * Returns the unblocker control headers for the options. The unblocker consumes them
+ * and does not forward them to the target.
+ */
+export function buildUnblockerHeaders(options: UnblockerOptions): IDataObject {
+	const headers: IDataObject = {};
+
+	if (options.renderJs) {
+		headers['x-unblock-render'] = 'true';
+	}
+
+	const expect: IDataObject = {};
+	if (options.expectElement) {
+		expect.element = options.expectElement;
+	}
+	if (options.expectText) {
+		expect.text = options.expectText;
+	}
+	if (Object.keys(expect).length) {
+		headers['x-unblock-expect'] = JSON.stringify(expect);
+	}
+
+	if (options.device) {
+		headers['x-unblock-device'] = options.device;
+	}
+
+	return headers;
+}
+
+/**
+ * Reads the headers, cookies and body parameters of an item into the request sent to the target URL.
+ */
+export function getTargetRequest(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	method: string,
+): { headers: IDataObject; body?: string } {
+	const headers = buildTargetHeaders(
+		this.getNodeParameter('headers', itemIndex, {}) as NameValueCollection,
+		this.getNodeParameter('cookies', itemIndex, {}) as NameValueCollection,
+	);
+
+	if (
+		!['DELETE', 'PATCH', 'POST', 'PUT'].includes(method) ||
+		!(this.getNodeParameter('sendBody', itemIndex, false) as boolean)
+	) {
+		return { headers };
+	}
+
+	const bodyType = this.getNodeParameter('bodyContentType', itemIndex) as TargetBodyType;
+	const content =
+		bodyType === 'json'
+			? (this.getNodeParameter('jsonBody', itemIndex) as string | IDataObject)
+			: bodyType === 'form'
+				? (this.getNodeParameter('formBody', itemIndex, {}) as NameValueCollection)
+				: (this.getNodeParameter('rawBody', itemIndex, '') as string);
+
+	try {
+		const body = applyTargetBody(
+			headers,
+			bodyType,
+			content,
+			this.getNodeParameter('rawContentType', itemIndex, 'text/plain') as string,
+		);
+		return { headers, body };
+	} catch {
+		throw new NodeOperationError(this.getNode(), 'JSON Body must be valid JSON', { itemIndex });
+	}
+}
+
+/**
+ * Returns the target content of a `/request` response, which is in `body` for most formats.
+ */
+export function getResponseContent(json: IDataObject): string {
+	const content = json.body || json.data || json.html;
+	if (!content) {
+		return '';
+	}
+	return typeof content === 'string' ? content : JSON.stringify(content);
+}
+
+function getHeader(headers: IDataObject, name: string): string | undefined {
+	const headerName = findHeaderName(headers, name);
+	const value = headerName ? headers[headerName] : undefined;
+	return Array.isArray(value) ? String(value[0]) : (value as string | undefined);
+}
+
+export function getFileMimeType(headers: IDataObject): string | undefined {
+	const contentType = getHeader(headers, 'content-type');
+	return contentType ? contentType.split(';')[0].trim() || undefined : undefined;
+}
+
+/**
+ * Takes the file name from `Content-Disposition`, falling back to the last segment of the URL path.
+ */
+export function getFileName(headers: IDataObject, url: string): string | undefined {
+	const disposition = getHeader(headers, 'content-disposition') ?? '';
+	const encodedName = /filename\*\s*=\s*(?:[\w-]+'[\w-]*')?([^;]+)/i.exec(disposition);
+	if (encodedName) {
+		try {
+			return decodeURIComponent(encodedName[1].trim().replace(/^"|"$/g, ''));
+		} catch {}
+	}
+
+	const plainName = /filename\s*=\s*("([^"]*)"|[^;]+)/i.exec(disposition);
+	if (plainName) {
+		return (plainName[2] ?? plainName[1]).trim();
+	}
+
+	try {
+		const segment = new URL(url).pathname.split('/').pop();
+		return segment ? decodeURIComponent(segment) : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+export type BlockDetectionRules = {
+	blockedStatusCodes?: string;
+	forbiddenText?: string;
+	requiredText?: string;
+	forbiddenPattern?: string;
+	requiredPattern?: string;
+	minContentLength?: number;
+	requiredSelector?: string;
+};
+
+function splitLines(value?: string): string[] {
+	return (value ?? '')
+		.split(/\r?\n/)
+		.map((line) => line.trim())
+		.filter((line) => line);
+}
+
+export type ParsedBlockDetectionRules = {
+	blockedStatusCodes: number[];
+	forbiddenText: string[];
+	requiredText: string[];
+	forbiddenPattern?: RegExp;
+	requiredPattern?: RegExp;
+	minContentLength?: number;
+	requiredSelector?: string;
+};
+
+// Accepts both `/pattern/flags` and a bare pattern, which is matched case-insensitively.
+// The stateful g and y flags are dropped since the parsed rules test every response of the item.
+function toRegExp(pattern: string): RegExp {
+	const match = /^\/(.*)\/([a-z]*)$/s.exec(pattern);
+	return match ? new RegExp(match[1], match[2].replace(/[gy]/g, '')) : new RegExp(pattern, 'i');
+}
+
+function parsePatternRule(name: string, pattern: string | undefined): RegExp | undefined {
+	if (!pattern) {
+		return undefined;
+	}
+	try {
+		return toRegExp(pattern);
+	} catch (error) {
+		throw new Error(`${name} ${pattern} is not a valid regular expression: ${error.message}`);
+	}
+}
+
+/**
+ * Parses the rules once per item, so that an invalid pattern or selector fails before any request is sent.
+ */
+export function parseBlockDetectionRules(rules: BlockDetectionRules): ParsedBlockDetectionRules {
+	if (rules.requiredSelector) {
+		try {
+			hasSelector('', rules.requiredSelector);
+		} catch (error) {
+			throw new Error(
+				`Required Selector ${rules.requiredSelector} is not a valid CSS selector: ${error.message}`,
+			);
+		}
+	}
+
+	return {
+		blockedStatusCodes: (rules.blockedStatusCodes ?? '')
+			.split(/[ ,;]+/)
+			.filter((code) => code)
+			.map(Number),
+		forbiddenText: splitLines(rules.forbiddenText),
+		requiredText: splitLines(rules.requiredText),
+		forbiddenPattern: parsePatternRule('Forbidden Pattern', rules.forbiddenPattern),
+		requiredPattern: parsePatternRule('Required Pattern', rules.requiredPattern),
+		minContentLength: rules.minContentLength,
+		requiredSelector: rules.requiredSelector || undefined,
+	};
+}
+
+/**
+ * Returns why the target response looks blocked, or `undefined` when it passes every rule.
+ */
+export function detectBlockedResponse(
+	content: string,
+	statusCode: number | undefined,
+	rules: ParsedBlockDetectionRules,
+): string | undefined {
+	if (statusCode !== undefined && rules.blockedStatusCodes.includes(statusCode)) {
+		return `Target responded with status ${statusCode}`;
+	}
+
+	if (rules.minContentLength && content.length < rules.minContentLength) {
+		return `Content is shorter than ${rules.minContentLength} characters`;
+	}
+
+	const lowerContent = content.toLowerCase();
+	const forbiddenText = rules.forbiddenText.find((text) =>
+		lowerContent.includes(text.toLowerCase()),
+	);
+	if (forbiddenText) {
+		return `Content contains "${forbiddenText}"`;
+	}
+
+	const missingText = rules.requiredText.find((text) => !lowerContent.includes(text.toLowerCase()));
+	if (missingText) {
+		return `Content does not contain "${missingText}"`;
+	}
+
+	if (rules.forbiddenPattern?.test(content)) {
+		return `Content matches ${rules.forbiddenPattern}`;
+	}
+
+	if (rules.requiredPattern && !rules.requiredPattern.test(content)) {
+		return `Content does not match ${rules.requiredPattern}`;
+	}
+
+	if (rules.requiredSelector && !hasSelector(content, rules.requiredSelector)) {
+		return `Content has no element matching ${rules.requiredSelector}`;
+	}
+
+	return undefined;
+}
@@ -13,9 +13,34 @@ export const webUnlockerOperations: INodeProperties[] = [
 		},
 		options: [
 			{
-				name: 'Web Search',
-				value: 'WebSearch',
-				action: 'Search the web and get serp results',
+				name: 'Crawl',
+				value: 'crawl',
+				action: 'Crawl a website starting from a url',
+			},
+			{
+				name: 'Get Country Statistics',
+				value: 'getCountryStats',
+				action: 'Get the success statistics of each country',
+			},
+			{
+				name: 'Get Sitemap URLs',
+				value: 'sitemap',
+				action: 'Get the urls listed in the sitemaps of a website',
+			},
+			{
+				name: 'Proxy Request',
+				value: 'proxyRequest',
+				action: 'Send a request through the super proxy',
+			},
+			{
+				name: 'Reset Country Statistics',
+				value: 'resetCountryStats',
+				action: 'Reset the success statistics of each country',
+			},
+			{
+				name: 'Send a Request',
+				value: 'request',
+				action: 'Access and extract data from a specific URL',
 				routing: {
 					request: {
 						method: 'POST',
@@ -23,16 +48,19 @@ export const webUnlockerOperations: INodeProperties[] = [
 						body: {
 							zone: '={{$parameter["zone"]}}',
 							country: '={{$parameter["country"]}}',
-							url: '={{`https://www.google.com/search?q=${encodeURIComponent($parameter["query"])}&start=${(($parameter["page"] || 1) - 1) * 10}&brd_json=1`}}',
-							format: 'raw',
+							method: '={{$parameter["method"]}}',
+							url: '={{$parameter["url"]}}',
+							format:
+								'={{$parameter["data_format"] === "markdown" ? "raw" : $parameter["format"]}}',
+							data_format: '={{$parameter["data_format"] || undefined}}',
 						},
 					},
 				},
 			},
 			{
-				name: 'Send a Request',
-				value: 'request',
-				action: 'Access and extract data from a specific URL',
+				name: 'Web Search',
+				value: 'WebSearch',
+				action: 'Search the web and get serp results',
 				routing: {
 					request: {
 						method: 'POST',
@@ -40,11 +68,26 @@ export const webUnlockerOperations: INodeProperties[] = [
 						body: {
 							zone: '={{$parameter["zone"]}}',
 							country: '={{$parameter["country"]}}',
-							method: '={{$parameter["method"]}}',
-							url: '={{$parameter["url"]}}',
-							format:
-								'={{$parameter["data_format"] === "markdown" ? "raw" : $parameter["format"]}}',
-							data_format: '={{$parameter["data_format"] || undefined}}',
+							url: `={{
+								{
+									"google": ((options) => "https://www.google.com/search?q=" + encodeURIComponent($parameter["query"]) + "&start=" + (($parameter["page"] || 1) - 1) * (options.resultsPerPage || 10) + Object.entries({
+										hl: options.language,
+										gl: options.geoLocation,
+										num: options.resultsPerPage,
+										tbs: options.timeRange === "custom"
+											? "cdr:1" + (options.dateFrom ? ",cd_min:" + DateTime.fromISO(options.dateFrom).toFormat("M/d/yyyy") : "") + (options.dateTo ? ",cd_max:" + DateTime.fromISO(options.dateTo).toFormat("M/d/yyyy") : "")
+											: { "hour": "qdr:h", "day": "qdr:d", "week": "qdr:w", "month": "qdr:m", "year": "qdr:y" }[options.timeRange],
+										safe: options.safeSearch === undefined ? undefined : options.safeSearch ? "active" : "off",
+										brd_mobile: options.device === "mobile" ? 1 : undefined,
+										tbm: { "images": "isch", "news": "nws", "shopping": "shop", "videos": "vid" }[options.searchType],
+									}).filter(([, value]) => value !== undefined && value !== "").map(([key, value]) => "&" + key + "=" + encodeURIComponent(value)).join(""))($parameter["googleOptions"] || {}),
+									"bing": "https://www.bing.com/search?q=" + encodeURIComponent($parameter["query"]) + "&first=" + ((($parameter["page"] || 1) - 1) * 10 + 1),
+									"duckduckgo": "https://duckduckgo.com/?q=" + encodeURIComponent($parameter["query"]) + "&s=" + (($parameter["page"] || 1) - 1) * 10,
+									"yandex": "https://yandex.com/search/?text=" + encodeURIComponent($parameter["query"]) + "&p=" + (($parameter["page"] || 1) - 1),
+									"baidu": "https://www.baidu.com/s?wd=" + encodeURIComponent($parameter["query"]) + "&pn=" + (($parameter["page"] || 1) - 1) * 10
+								}[$parameter["searchEngine"] || "google"] + "&brd_json=1"
+							}}`,
+							format: 'raw',
 						},
 					},
 				},
@@ -55,7 +98,7 @@ export const webUnlockerOperations: INodeProperties[] = [
 ];
 
 const webUnlockerParameters: INodeProperties[] = [
-	// Zone - shared by both operations
+	// Zone - Web Unlocker zones for the page operations, SERP zones for Web Search
 	{
 		displayName: 'Zone',
 		name: 'zone',
@@ -76,15 +119,43 @@ const webUnlockerParameters: INodeProperties[] = [
 			},
 		],
 		required: true,
-		description: 'Select the zone',
+		description: 'Select the Web Unlocker zone',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['crawl', 'request', 'sitemap'],
+			},
+		},
+	},
+	{
+		displayName: 'Zone',
+		name: 'zone',
+		type: 'resourceLocator',
+		default: {
+			mode: 'list',
+			value: 'n8n_serp',
+		},
+		modes: [
+			{
+				displayName: 'From List',
+				name: 'list',
+				type: 'list',
+				placeholder: 'Select a Zone ...',
+				typeOptions: {
+					searchListMethod: 'getActiveZones',
+				},
+			},
+		],
+		required: true,
+		description: 'Select the SERP zone',
 		displayOptions: {
 			show: {
 				resource: ['webUnlocker'],
-				operation: ['request', 'WebSearch'],
+				operation: ['WebSearch'],
 			},
 		},
 	},
-	// Country - shared by both operations
+	// Country - shared by all request operations
 	{
 		displayName: 'Country',
 		name: 'country',
@@ -109,7 +180,7 @@ const webUnlockerParameters: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['webUnlocker'],
-				operation: ['request', 'WebSearch'],
+				operation: ['crawl', 'request', 'sitemap', 'WebSearch'],
 			},
 		},
 	},
@@ -122,7 +193,7 @@ const webUnlockerParameters: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['webUnlocker'],
-				operation: ['request', 'WebSearch'],
+				operation: ['crawl', 'request', 'sitemap', 'WebSearch'],
 			},
 		},
 	},
@@ -135,7 +206,120 @@ const webUnlockerParameters: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['webUnlocker'],
-				operation: ['request', 'WebSearch'],
+				operation: ['crawl', 'request', 'sitemap', 'WebSearch'],
+			},
+		},
+	},
+	{
+		displayName: 'Remember Country Per',
+		name: 'countryMemoryMode',
+		type: 'options',
+		options: [
+			{
+				name: 'Node',
+				value: 'global',
+				description: 'Remember one country for every request of this node',
+			},
+			{
+				name: 'Hostname',
+				value: 'hostname',
+				description: 'Remember one country for each target hostname',
+			},
+			{
+				name: 'Custom Group',
+				value: 'group',
+				description: 'Remember one country for each value of an expression',
+			},
+		],
+		default: 'global',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['crawl', 'request', 'sitemap', 'WebSearch'],
+				usePersistence: [true],
+			},
+		},
+	},
+	{
+		displayName: 'Group',
+		name: 'countryMemoryGroup',
+		type: 'string',
+		default: '',
+		placeholder: 'e.g. {{ $json.retailer }}',
+		description: 'Items with the same group share their remembered country',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['crawl', 'request', 'sitemap', 'WebSearch'],
+				usePersistence: [true],
+				countryMemoryMode: ['group'],
+			},
+		},
+	},
+	{
+		displayName: 'Remembered Country TTL (Hours)',
+		name: 'countryMemoryTtl',
+		type: 'number',
+		typeOptions: {
+			minValue: 0,
+		},
+		default: 0,
+		description:
+			'Time after which a remembered country is forgotten and the primary country is tried first again. Set to 0 to never forget.',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['crawl', 'request', 'sitemap', 'WebSearch'],
+				usePersistence: [true],
+			},
+		},
+	},
+	{
+		displayName: 'Order Countries by Success Rate',
+		name: 'useCountryStats',
+		type: 'boolean',
+		default: false,
+		description:
+			'Whether to keep success statistics for each country and try the most successful countries first',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['crawl', 'request', 'sitemap', 'WebSearch'],
+			},
+		},
+	},
+	{
+		displayName: 'Statistics Half-Life (Hours)',
+		name: 'statsHalfLife',
+		type: 'number',
+		typeOptions: {
+			minValue: 0,
+		},
+		default: 24,
+		description:
+			'Time after which older results count half as much as new ones. Set to 0 to never decay.',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['crawl', 'request', 'sitemap', 'WebSearch'],
+				useCountryStats: [true],
+			},
+		},
+	},
+	{
+		displayName: 'Statistics Half-Life (Hours)',
+		name: 'statsHalfLife',
+		type: 'number',
+		typeOptions: {
+			minValue: 0,
+		},
+		default: 24,
+		description:
+			'Time after which older results count half as much as new ones. Set to 0 to never decay.',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['getCountryStats'],
 			},
 		},
 	},
@@ -149,132 +333,1484 @@ const webUnlockerParameters: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['webUnlocker'],
-				operation: ['request', 'WebSearch'],
+				operation: ['crawl', 'request', 'sitemap', 'WebSearch'],
 				rotateCountries: [true],
 			},
 		},
 	},
 
 	{
-		displayName: 'Search Query',
-		name: 'query',
-		type: 'string',
-		default: '',
-		required: true,
-		description: 'The search query to send to Google',
+		displayName: 'Retries on Transient Errors',
+		name: 'maxRetries',
+		type: 'number',
+		typeOptions: {
+			minValue: 0,
+		},
+		default: 2,
+		description:
+			'How many times to retry the same country when the API returns 429, 5xx or times out',
 		displayOptions: {
 			show: {
 				resource: ['webUnlocker'],
-				operation: ['WebSearch'],
+				operation: ['crawl', 'request', 'sitemap', 'WebSearch'],
 			},
 		},
 	},
 	{
-		displayName: 'Page',
-		name: 'page',
+		displayName: 'Initial Retry Delay (Ms)',
+		name: 'retryDelay',
+		type: 'number',
+		typeOptions: {
+			minValue: 0,
+		},
+		default: 1000,
+		description:
+			'Delay before the first retry. It doubles with every retry and is overridden by a Retry-After header.',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['crawl', 'request', 'sitemap', 'WebSearch'],
+			},
+			hide: {
+				maxRetries: [0],
+			},
+		},
+	},
+	{
+		displayName: 'Max Retry Delay (Ms)',
+		name: 'maxRetryDelay',
+		type: 'number',
+		typeOptions: {
+			minValue: 0,
+		},
+		default: 30000,
+		description: 'Upper bound for the delay between two retries',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['crawl', 'request', 'sitemap', 'WebSearch'],
+			},
+			hide: {
+				maxRetries: [0],
+			},
+		},
+	},
+	{
+		displayName: 'Include Attempt Log',
+		name: 'includeAttempts',
+		type: 'boolean',
+		default: false,
+		description:
+			'Whether to add an _attempts array with the country, duration, status, failure reason and size of every try made for the page of each output',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['crawl', 'request', 'sitemap', 'WebSearch'],
+			},
+		},
+	},
+	{
+		displayName: 'Concurrency',
+		name: 'concurrency',
 		type: 'number',
+		typeOptions: {
+			minValue: 1,
+			maxValue: 50,
+		},
 		default: 1,
-		description: 'The page number of search results (1 = first page, 2 = second page, etc.)',
+		description: 'How many input items to process in parallel',
 		displayOptions: {
 			show: {
 				resource: ['webUnlocker'],
-				operation: ['WebSearch'],
+				operation: ['crawl', 'request', 'sitemap', 'WebSearch'],
 			},
 		},
 	},
 
 	{
-		displayName: 'Method',
-		name: 'method',
+		displayName: 'Search Engine',
+		name: 'searchEngine',
 		type: 'options',
 		options: [
 			{
-				name: 'DELETE',
-				value: 'DELETE',
-			},
-			{
-				name: 'GET',
-				value: 'GET',
+				name: 'Baidu',
+				value: 'baidu',
 			},
 			{
-				name: 'HEAD',
-				value: 'HEAD',
+				name: 'Bing',
+				value: 'bing',
 			},
 			{
-				name: 'PATCH',
-				value: 'PATCH',
+				name: 'DuckDuckGo',
+				value: 'duckduckgo',
 			},
 			{
-				name: 'POST',
-				value: 'POST',
+				name: 'Google',
+				value: 'google',
 			},
 			{
-				name: 'PUT',
-				value: 'PUT',
+				name: 'Yandex',
+				value: 'yandex',
 			},
 		],
-		default: 'GET',
-		required: true,
-		description: 'The HTTP method to use',
+		default: 'google',
+		description: 'The search engine to query',
 		displayOptions: {
 			show: {
 				resource: ['webUnlocker'],
-				operation: ['request'],
+				operation: ['WebSearch'],
 			},
 		},
 	},
 	{
-		displayName: 'URL',
-		name: 'url',
+		displayName: 'Search Query',
+		name: 'query',
 		type: 'string',
 		default: '',
 		required: true,
-		description: 'The URL to send the request to',
+		description: 'The search query to send to the search engine',
 		displayOptions: {
 			show: {
 				resource: ['webUnlocker'],
-				operation: ['request'],
+				operation: ['WebSearch'],
 			},
 		},
 	},
 	{
-		displayName: 'Data Format',
-		name: 'data_format',
+		displayName: 'Pagination',
+		name: 'searchPagination',
 		type: 'options',
 		options: [
 			{
-				name: 'None',
-				value: '',
+				name: 'Single Page',
+				value: 'page',
+				description: 'Fetch one page of search results',
 			},
 			{
-				name: 'Markdown',
-				value: 'markdown',
+				name: 'Collect Results',
+				value: 'collect',
+				description:
+					'Fetch pages until enough unique results are collected or the results run out. When a later page cannot be fetched, the results so far are returned with a stop_reason.',
 			},
 		],
-		default: '',
+		default: 'page',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['WebSearch'],
+			},
+		},
+	},
+	{
+		displayName: 'Page',
+		name: 'page',
+		type: 'number',
+		default: 1,
+		description: 'The page number of search results (1 = first page, 2 = second page, etc.)',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['WebSearch'],
+				searchPagination: ['page'],
+			},
+		},
+	},
+	{
+		displayName: 'Max Results',
+		name: 'maxResults',
+		type: 'number',
+		typeOptions: {
+			minValue: 1,
+		},
+		default: 30,
+		description: 'Max number of results to return',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['WebSearch'],
+				searchPagination: ['collect'],
+			},
+		},
+	},
+	{
+		displayName: 'Pages to Fetch',
+		name: 'maxPages',
+		type: 'number',
+		typeOptions: {
+			minValue: 1,
+		},
+		default: 5,
 		description:
-			'When set to Markdown, the response will be returned as markdown (format is forced to Raw)',
+			'The maximum number of result pages to walk. Links repeated across pages are dropped.',
 		displayOptions: {
 			show: {
 				resource: ['webUnlocker'],
-				operation: ['request'],
+				operation: ['WebSearch'],
+				searchPagination: ['collect'],
 			},
 		},
 	},
+
 	{
-		displayName: 'Format',
-		name: 'format',
-		type: 'options',
+		displayName: 'Google Options',
+		name: 'googleOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['WebSearch'],
+				searchEngine: ['google'],
+			},
+		},
 		options: [
 			{
-				name: 'Raw',
-				value: 'raw',
+				displayName: 'Custom Range End',
+				name: 'dateTo',
+				type: 'dateTime',
+				default: '',
+				description: 'Latest publication date, used when Time Range is Custom',
 			},
 			{
-				name: 'JSON',
-				value: 'json',
+				displayName: 'Custom Range Start',
+				name: 'dateFrom',
+				type: 'dateTime',
+				default: '',
+				description: 'Earliest publication date, used when Time Range is Custom',
 			},
-		],
+			{
+				displayName: 'Device',
+				name: 'device',
+				type: 'options',
+				options: [
+					{
+						name: 'Desktop',
+						value: 'desktop',
+					},
+					{
+						name: 'Mobile',
+						value: 'mobile',
+					},
+				],
+				default: 'desktop',
+				description: 'Whether to get the results served to desktop or mobile browsers',
+			},
+			{
+				displayName: 'Geo Location',
+				name: 'geoLocation',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. us',
+				description: 'Two-letter country code the search is made from (gl)',
+			},
+			{
+				displayName: 'Language',
+				name: 'language',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. en',
+				description: 'Two-letter language code of the results interface (hl)',
+			},
+			{
+				displayName: 'Results Per Page',
+				name: 'resultsPerPage',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+					maxValue: 100,
+				},
+				default: 10,
+				description: 'Number of results to request per page (num)',
+			},
+			{
+				displayName: 'Safe Search',
+				name: 'safeSearch',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to filter explicit results',
+			},
+			{
+				displayName: 'Search Type',
+				name: 'searchType',
+				type: 'options',
+				options: [
+					{
+						name: 'Images',
+						value: 'images',
+					},
+					{
+						name: 'News',
+						value: 'news',
+					},
+					{
+						name: 'Shopping',
+						value: 'shopping',
+					},
+					{
+						name: 'Videos',
+						value: 'videos',
+					},
+					{
+						name: 'Web',
+						value: 'web',
+					},
+				],
+				default: 'web',
+				description: 'The Google vertical to search',
+			},
+			{
+				displayName: 'Time Range',
+				name: 'timeRange',
+				type: 'options',
+				options: [
+					{
+						name: 'Any Time',
+						value: '',
+					},
+					{
+						name: 'Custom',
+						value: 'custom',
+					},
+					{
+						name: 'Past Day',
+						value: 'day',
+					},
+					{
+						name: 'Past Hour',
+						value: 'hour',
+					},
+					{
+						name: 'Past Month',
+						value: 'month',
+					},
+					{
+						name: 'Past Week',
+						value: 'week',
+					},
+					{
+						name: 'Past Year',
+						value: 'year',
+					},
+				],
+				default: '',
+				description: 'Only return results published within this range (tbs)',
+			},
+		],
+	},
+	{
+		displayName: 'Output',
+		name: 'searchOutput',
+		type: 'options',
+		options: [
+			{
+				name: 'Full Response',
+				value: 'full',
+				description: 'Return the whole parsed result page as a single item',
+			},
+			{
+				name: 'Organic Results',
+				value: 'organic',
+				description: 'Return one item per organic result',
+			},
+		],
+		default: 'full',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['WebSearch'],
+			},
+		},
+	},
+
+	{
+		displayName: 'Start URL',
+		name: 'seedUrl',
+		type: 'string',
+		default: '',
+		required: true,
+		placeholder: 'e.g. https://example.com/catalog',
+		description: 'The URL to start crawling from. Only pages on the same host are followed.',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['crawl'],
+			},
+		},
+	},
+	{
+		displayName: 'Max Depth',
+		name: 'crawlMaxDepth',
+		type: 'number',
+		typeOptions: {
+			minValue: 0,
+		},
+		default: 2,
+		description: 'How many links away from the start URL to follow (0 = only the start URL)',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['crawl'],
+			},
+		},
+	},
+	{
+		displayName: 'Max Pages',
+		name: 'crawlMaxPages',
+		type: 'number',
+		typeOptions: {
+			minValue: 1,
+		},
+		default: 50,
+		description: 'Max number of pages to fetch',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['crawl'],
+			},
+		},
+	},
+	{
+		displayName: 'Source',
+		name: 'sitemapSource',
+		type: 'options',
+		options: [
+			{
+				name: 'Site URL',
+				value: 'site',
+				description: 'Find the sitemaps in the robots.txt of the site, or use /sitemap.xml',
+			},
+			{
+				name: 'Sitemap URL',
+				value: 'sitemap',
+				description: 'Read a sitemap or sitemap index directly',
+			},
+		],
+		default: 'site',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['sitemap'],
+			},
+		},
+	},
+	{
+		displayName: 'URL',
+		name: 'sitemapUrl',
+		type: 'string',
+		default: '',
+		required: true,
+		placeholder: 'e.g. https://example.com',
+		description: 'The site or the sitemap to read. Gzipped sitemaps are supported.',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['sitemap'],
+			},
+		},
+	},
+	{
+		displayName: 'Max URLs',
+		name: 'sitemapMaxUrls',
+		type: 'number',
+		typeOptions: {
+			minValue: 1,
+		},
+		default: 1000,
+		description: 'Max number of URLs to return',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['sitemap'],
+			},
+		},
+	},
+	{
+		displayName: 'Modified After',
+		name: 'modifiedAfter',
+		type: 'dateTime',
+		default: '',
+		description:
+			'Only keep URLs whose lastmod is after this date. URLs without lastmod are always kept.',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['sitemap'],
+			},
+		},
+	},
+	{
+		displayName: 'Modified Before',
+		name: 'modifiedBefore',
+		type: 'dateTime',
+		default: '',
+		description:
+			'Only keep URLs whose lastmod is before this date. URLs without lastmod are always kept.',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['sitemap'],
+			},
+		},
+	},
+	{
+		displayName: 'Include Patterns',
+		name: 'includePatterns',
+		type: 'string',
+		typeOptions: {
+			rows: 3,
+		},
+		default: '',
+		placeholder: 'e.g. */products/*',
+		description:
+			'Only keep URLs matching one of these patterns, one per line. Use * as a wildcard or /regex/.',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['crawl', 'sitemap'],
+			},
+		},
+	},
+	{
+		displayName: 'Exclude Patterns',
+		name: 'excludePatterns',
+		type: 'string',
+		typeOptions: {
+			rows: 3,
+		},
+		default: '',
+		placeholder: 'e.g. */cart*',
+		description:
+			'Skip URLs matching one of these patterns, one per line. Use * as a wildcard or /regex/.',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['crawl', 'sitemap'],
+			},
+		},
+	},
+	{
+		displayName: 'Page Format',
+		name: 'crawlFormat',
+		type: 'options',
+		options: [
+			{
+				name: 'HTML',
+				value: 'html',
+			},
+			{
+				name: 'Markdown',
+				value: 'markdown',
+			},
+		],
+		default: 'html',
+		description: 'The format of the returned pages',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['crawl'],
+			},
+		},
+	},
+	{
+		displayName: 'Fetch Pages',
+		name: 'fetchPages',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to fetch each URL and return its content',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['sitemap'],
+			},
+		},
+	},
+	{
+		displayName: 'Page Format',
+		name: 'sitemapPageFormat',
+		type: 'options',
+		options: [
+			{
+				name: 'HTML',
+				value: 'html',
+			},
+			{
+				name: 'Markdown',
+				value: 'markdown',
+			},
+		],
+		default: 'html',
+		description: 'The format of the returned pages',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['sitemap'],
+				fetchPages: [true],
+			},
+		},
+	},
+
+	{
+		displayName: 'Country',
+		name: 'proxyCountry',
+		type: 'string',
+		default: '',
+		placeholder: 'e.g. us',
+		description: 'Two-letter code of the country to exit from. Leave empty for any country.',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['proxyRequest'],
+			},
+		},
+	},
+	{
+		displayName: 'Proxy Options',
+		name: 'proxyOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['proxyRequest'],
+			},
+		},
+		options: [
+			{
+				displayName: 'City',
+				name: 'city',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. newyork',
+				description: 'City to exit from, requires a country. Spaces are removed.',
+			},
+			{
+				displayName: 'Ignore SSL Issues (Insecure)',
+				name: 'ignoreSslIssues',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to accept invalid certificates, e.g. when the zone intercepts HTTPS with its own certificate',
+			},
+			{
+				displayName: 'Session ID',
+				name: 'session',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. {{ $json.accountId }}',
+				description: 'Requests with the same session ID keep the same exit IP',
+			},
+			{
+				displayName: 'Timeout (Ms)',
+				name: 'timeout',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 60000,
+				description: 'Time to wait for the proxy to connect and the target to respond',
+			},
+		],
+	},
+	{
+		displayName: 'Method',
+		name: 'method',
+		type: 'options',
+		options: [
+			{
+				name: 'DELETE',
+				value: 'DELETE',
+			},
+			{
+				name: 'GET',
+				value: 'GET',
+			},
+			{
+				name: 'HEAD',
+				value: 'HEAD',
+			},
+			{
+				name: 'PATCH',
+				value: 'PATCH',
+			},
+			{
+				name: 'POST',
+				value: 'POST',
+			},
+			{
+				name: 'PUT',
+				value: 'PUT',
+			},
+		],
+		default: 'GET',
+		required: true,
+		description: 'The HTTP method to use',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['proxyRequest', 'request'],
+			},
+		},
+	},
+	{
+		displayName: 'URL',
+		name: 'url',
+		type: 'string',
+		default: '',
+		required: true,
+		description: 'The URL to send the request to',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['proxyRequest', 'request'],
+			},
+		},
+	},
+	{
+		displayName: 'Headers',
+		name: 'headers',
+		type: 'fixedCollection',
+		typeOptions: {
+			multipleValues: true,
+		},
+		placeholder: 'Add Header',
+		default: {},
+		description: 'Headers to send to the target URL',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['proxyRequest', 'request'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Header',
+				name: 'parameters',
+				values: [
+					{
+						displayName: 'Name',
+						name: 'name',
+						type: 'string',
+						default: '',
+					},
+					{
+						displayName: 'Value',
+						name: 'value',
+						type: 'string',
+						default: '',
+					},
+				],
+			},
+		],
+	},
+	{
+		displayName: 'Cookies',
+		name: 'cookies',
+		type: 'fixedCollection',
+		typeOptions: {
+			multipleValues: true,
+		},
+		placeholder: 'Add Cookie',
+		default: {},
+		description: 'Cookies to send to the target URL',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['proxyRequest', 'request'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Cookie',
+				name: 'parameters',
+				values: [
+					{
+						displayName: 'Name',
+						name: 'name',
+						type: 'string',
+						default: '',
+					},
+					{
+						displayName: 'Value',
+						name: 'value',
+						type: 'string',
+						default: '',
+					},
+				],
+			},
+		],
+	},
+	{
+		displayName: 'Send Body',
+		name: 'sendBody',
+		type: 'boolean',
+		default: false,
+		description: 'Whether the request to the target URL has a body',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['proxyRequest', 'request'],
+				method: ['DELETE', 'PATCH', 'POST', 'PUT'],
+			},
+		},
+	},
+	{
+		displayName: 'Body Content Type',
+		name: 'bodyContentType',
+		type: 'options',
+		options: [
+			{
+				name: 'Form Urlencoded',
+				value: 'form',
+			},
+			{
+				name: 'JSON',
+				value: 'json',
+			},
+			{
+				name: 'Raw',
+				value: 'raw',
+			},
+		],
+		default: 'json',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['proxyRequest', 'request'],
+				method: ['DELETE', 'PATCH', 'POST', 'PUT'],
+				sendBody: [true],
+			},
+		},
+	},
+	{
+		displayName: 'JSON Body',
+		name: 'jsonBody',
+		type: 'json',
+		default: '{}',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['proxyRequest', 'request'],
+				method: ['DELETE', 'PATCH', 'POST', 'PUT'],
+				sendBody: [true],
+				bodyContentType: ['json'],
+			},
+		},
+	},
+	{
+		displayName: 'Form Fields',
+		name: 'formBody',
+		type: 'fixedCollection',
+		typeOptions: {
+			multipleValues: true,
+		},
+		placeholder: 'Add Field',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['proxyRequest', 'request'],
+				method: ['DELETE', 'PATCH', 'POST', 'PUT'],
+				sendBody: [true],
+				bodyContentType: ['form'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Field',
+				name: 'parameters',
+				values: [
+					{
+						displayName: 'Name',
+						name: 'name',
+						type: 'string',
+						default: '',
+					},
+					{
+						displayName: 'Value',
+						name: 'value',
+						type: 'string',
+						default: '',
+					},
+				],
+			},
+		],
+	},
+	{
+		displayName: 'Content Type',
+		name: 'rawContentType',
+		type: 'string',
+		default: 'text/plain',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['proxyRequest', 'request'],
+				method: ['DELETE', 'PATCH', 'POST', 'PUT'],
+				sendBody: [true],
+				bodyContentType: ['raw'],
+			},
+		},
+	},
+	{
+		displayName: 'Body',
+		name: 'rawBody',
+		type: 'string',
+		typeOptions: {
+			rows: 4,
+		},
+		default: '',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['proxyRequest', 'request'],
+				method: ['DELETE', 'PATCH', 'POST', 'PUT'],
+				sendBody: [true],
+				bodyContentType: ['raw'],
+			},
+		},
+	},
+	{
+		displayName: 'Block Detection',
+		name: 'blockDetection',
+		type: 'collection',
+		placeholder: 'Add Rule',
+		default: {},
+		description:
+			'Rules that mark a response as blocked. Blocked responses are retried in the next country like empty ones.',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['request'],
+				responseType: ['data'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Blocked Status Codes',
+				name: 'blockedStatusCodes',
+				type: 'string',
+				default: '403',
+				placeholder: 'e.g. 403, 429, 503',
+				description:
+					'Comma-separated target status codes that count as blocked. Only available with the JSON format.',
+			},
+			{
+				displayName: 'Forbidden Pattern',
+				name: 'forbiddenPattern',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. /captcha|access denied/i',
+				description: 'Regular expression that must not match the content',
+			},
+			{
+				displayName: 'Forbidden Text',
+				name: 'forbiddenText',
+				type: 'string',
+				typeOptions: {
+					rows: 3,
+				},
+				default: '',
+				description: 'Text that must not appear in the content, one entry per line',
+			},
+			{
+				displayName: 'Min Content Length',
+				name: 'minContentLength',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 0,
+				description: 'Minimum number of characters in the content',
+			},
+			{
+				displayName: 'Required Pattern',
+				name: 'requiredPattern',
+				type: 'string',
+				default: '',
+				description: 'Regular expression that must match the content',
+			},
+			{
+				displayName: 'Required Selector',
+				name: 'requiredSelector',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. #product-title',
+				description: 'CSS selector that must match at least one element of the HTML',
+			},
+			{
+				displayName: 'Required Text',
+				name: 'requiredText',
+				type: 'string',
+				typeOptions: {
+					rows: 3,
+				},
+				default: '',
+				description: 'Text that must appear in the content, one entry per line',
+			},
+		],
+	},
+	{
+		displayName: 'Extract Metadata',
+		name: 'extractMetadata',
+		type: 'boolean',
+		default: false,
+		description:
+			'Whether to add a metadata field with the title, meta description, canonical URL, hreflang links, OpenGraph and Twitter tags and JSON-LD blocks of the page',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['request'],
+				responseType: ['data'],
+				data_format: [''],
+			},
+			hide: {
+				extractTable: [true],
+			},
+		},
+	},
+	{
+		displayName: 'Extract Main Content',
+		name: 'extractMainContent',
+		type: 'boolean',
+		default: false,
+		description:
+			'Whether to return the article of the page without navigation, footers and banners, as title, byline, published date, text and markdown',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['request'],
+				responseType: ['data'],
+				data_format: [''],
+			},
+		},
+	},
+	{
+		displayName: 'Extract Table',
+		name: 'extractTable',
+		type: 'boolean',
+		default: false,
+		description:
+			'Whether to return one item per row of an HTML table of the page, keyed by the column names',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['request'],
+				responseType: ['data'],
+				data_format: [''],
+			},
+			hide: {
+				extractMainContent: [true],
+			},
+		},
+	},
+	{
+		displayName: 'Table Options',
+		name: 'tableOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['request'],
+				responseType: ['data'],
+				data_format: [''],
+				extractTable: [true],
+			},
+			hide: {
+				extractMainContent: [true],
+			},
+		},
+		options: [
+			{
+				displayName: 'Header Rows',
+				name: 'headerRows',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 1,
+				description:
+					'Number of rows at the top of the table holding the column names. When not set, the thead rows or the leading rows of th cells are used.',
+			},
+			{
+				displayName: 'Table Index',
+				name: 'tableIndex',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 0,
+				description:
+					'Position of the table among the matching tables, starting at 0. Tables containing other tables are skipped when no selector is set.',
+			},
+			{
+				displayName: 'Table Selector',
+				name: 'tableSelector',
+				type: 'string',
+				default: '',
+				placeholder: 'table.prices',
+				description:
+					'CSS selector of the table, or of an element containing it. When empty, every table of the page matches.',
+			},
+		],
+	},
+	{
+		displayName: 'Extract Fields',
+		name: 'extractionFields',
+		type: 'fixedCollection',
+		typeOptions: {
+			multipleValues: true,
+		},
+		placeholder: 'Add Field',
+		default: {},
+		description:
+			'Fields to extract from the HTML. When set, each page is returned as an object with these fields instead of the raw content.',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['request'],
+				responseType: ['data'],
+				data_format: [''],
+			},
+			hide: {
+				extractMainContent: [true],
+				extractTable: [true],
+			},
+		},
+		options: [
+			{
+				displayName: 'Field',
+				name: 'fields',
+				values: [
+					{
+						displayName: 'Key',
+						name: 'key',
+						type: 'string',
+						default: '',
+						required: true,
+						description: 'The key under which the extracted value is returned',
+					},
+					{
+						displayName: 'Selector Type',
+						name: 'selectorType',
+						type: 'options',
+						options: [
+							{
+								name: 'CSS Selector',
+								value: 'css',
+							},
+							{
+								name: 'XPath',
+								value: 'xpath',
+							},
+						],
+						default: 'css',
+					},
+					{
+						displayName: 'Selector',
+						name: 'selector',
+						type: 'string',
+						default: '',
+						required: true,
+						placeholder: 'e.g. h1.title or //h1[@class="title"]',
+					},
+					{
+						displayName: 'Return Value',
+						name: 'returnValue',
+						type: 'options',
+						options: [
+							{
+								name: 'Attribute',
+								value: 'attribute',
+								description: 'Get an attribute value like "class" from an element',
+							},
+							{
+								name: 'HTML',
+								value: 'html',
+								description: 'Get the HTML the element contains',
+							},
+							{
+								name: 'Text',
+								value: 'text',
+								description: 'Get only the text content of the element',
+							},
+						],
+						default: 'text',
+					},
+					{
+						displayName: 'Attribute',
+						name: 'attribute',
+						type: 'string',
+						displayOptions: {
+							show: {
+								returnValue: ['attribute'],
+							},
+						},
+						default: '',
+						placeholder: 'e.g. href',
+						description: 'The name of the attribute to return the value of',
+					},
+					{
+						displayName: 'Return All Matches',
+						name: 'returnArray',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to return the values of all matching elements as an array instead of the first one',
+					},
+				],
+			},
+		],
+	},
+	{
+		displayName: 'Unblocker Options',
+		name: 'unblockerOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['request'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Fingerprint',
+				name: 'device',
+				type: 'options',
+				options: [
+					{
+						name: 'Desktop',
+						value: 'desktop',
+					},
+					{
+						name: 'Mobile',
+						value: 'mobile',
+					},
+				],
+				default: 'desktop',
+				description: 'Whether the request looks like it comes from a desktop or a mobile browser',
+			},
+			{
+				displayName: 'Force JS Rendering',
+				name: 'renderJs',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to render the page in a browser, for pages that load their data client-side',
+			},
+			{
+				displayName: 'Include Response Headers',
+				name: 'includeResponseHeaders',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to return the headers sent by the target in a headers field',
+			},
+			{
+				displayName: 'Wait for Element',
+				name: 'expectElement',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. .product-price',
+				description: 'CSS selector of an element the page must contain before it is returned',
+			},
+			{
+				displayName: 'Wait for Text',
+				name: 'expectText',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. Add to cart',
+				description: 'Text the page must contain before it is returned',
+			},
+		],
+	},
+	{
+		displayName: 'Send Asynchronously',
+		name: 'asyncRequest',
+		type: 'boolean',
+		default: false,
+		description:
+			'Whether to submit the request to the async unblocker and poll for its result, for pages that take too long to render for a synchronous request',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['request'],
+			},
+		},
+	},
+	{
+		displayName: 'Async Options',
+		name: 'asyncOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['request'],
+				asyncRequest: [true],
+			},
+		},
+		options: [
+			{
+				displayName: 'Poll Interval (Seconds)',
+				name: 'pollInterval',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 5,
+				description: 'How long to wait between two checks for the result',
+			},
+			{
+				displayName: 'Timeout (Seconds)',
+				name: 'timeout',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 300,
+				description:
+					'How long to wait for the result before the request fails. It is not retried, since every new request is billed.',
+			},
+		],
+	},
+	{
+		displayName: 'Response Type',
+		name: 'responseType',
+		type: 'options',
+		options: [
+			{
+				name: 'Data',
+				value: 'data',
+				description: 'Return the response as JSON, HTML or markdown',
+			},
+			{
+				name: 'File',
+				value: 'file',
+				description: 'Return the response as binary data, e.g. for PDFs and images',
+			},
+		],
+		default: 'data',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['proxyRequest', 'request'],
+			},
+		},
+	},
+	{
+		displayName: 'Put Output File in Field',
+		name: 'binaryPropertyName',
+		type: 'string',
+		default: 'data',
+		required: true,
+		hint: 'The name of the output binary field to put the file in',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['proxyRequest', 'request'],
+				responseType: ['file'],
+			},
+		},
+	},
+	{
+		displayName: 'Data Format',
+		name: 'data_format',
+		type: 'options',
+		options: [
+			{
+				name: 'None',
+				value: '',
+			},
+			{
+				name: 'Markdown',
+				value: 'markdown',
+			},
+		],
+		default: '',
+		description:
+			'When set to Markdown, the response will be returned as markdown (format is forced to Raw)',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['request'],
+				responseType: ['data'],
+			},
+		},
+	},
+	{
+		displayName: 'Split Into Chunks',
+		name: 'chunkMarkdown',
+		type: 'boolean',
+		default: false,
+		description:
+			'Whether to split the markdown into heading-aware chunks and return one item per chunk',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['request'],
+				responseType: ['data'],
+				data_format: ['markdown'],
+			},
+		},
+	},
+	{
+		displayName: 'Chunk Size',
+		name: 'chunkSize',
+		type: 'number',
+		typeOptions: {
+			minValue: 100,
+		},
+		default: 2000,
+		description: 'Maximum number of characters in a chunk',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['request'],
+				responseType: ['data'],
+				data_format: ['markdown'],
+				chunkMarkdown: [true],
+			},
+		},
+	},
+	{
+		displayName: 'Chunk Overlap',
+		name: 'chunkOverlap',
+		type: 'number',
+		typeOptions: {
+			minValue: 0,
+		},
+		default: 200,
+		description:
+			'Number of characters repeated from the end of the previous chunk of the same section',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['request'],
+				responseType: ['data'],
+				data_format: ['markdown'],
+				chunkMarkdown: [true],
+			},
+		},
+	},
+	{
+		displayName: 'Format',
+		name: 'format',
+		type: 'options',
+		options: [
+			{
+				name: 'Raw',
+				value: 'raw',
+			},
+			{
+				name: 'JSON',
+				value: 'json',
+			},
+		],
 		default: 'json',
 		required: true,
 		description: 'The format of the response',
@@ -282,10 +1818,105 @@ const webUnlockerParameters: INodeProperties[] = [
 			show: {
 				resource: ['webUnlocker'],
 				operation: ['request'],
+				responseType: ['data'],
 				data_format: [''],
 			},
 		},
 	},
+	{
+		displayName: 'Cache Responses',
+		name: 'useCache',
+		type: 'boolean',
+		default: false,
+		description:
+			'Whether to reuse successful responses for the same method, URL, country and format instead of buying them again',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['request'],
+				responseType: ['data'],
+			},
+		},
+	},
+	{
+		displayName: 'Cache Storage',
+		name: 'cacheStorage',
+		type: 'options',
+		options: [
+			{
+				name: 'Workflow Static Data',
+				value: 'staticData',
+				description: 'Only saved by production executions, not by manual ones',
+			},
+			{
+				name: 'Local Directory',
+				value: 'directory',
+				description: 'One file per response in a directory of the n8n host',
+			},
+		],
+		default: 'staticData',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['request'],
+				responseType: ['data'],
+				useCache: [true],
+			},
+		},
+	},
+	{
+		displayName: 'Cache Directory',
+		name: 'cacheDirectory',
+		type: 'string',
+		default: '',
+		required: true,
+		placeholder: 'e.g. /home/node/.n8n/brightdata-cache',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['request'],
+				responseType: ['data'],
+				useCache: [true],
+				cacheStorage: ['directory'],
+			},
+		},
+	},
+	{
+		displayName: 'Cache TTL (Minutes)',
+		name: 'cacheTtl',
+		type: 'number',
+		typeOptions: {
+			minValue: 1,
+		},
+		default: 60,
+		description: 'Time after which a cached response is fetched again',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['request'],
+				responseType: ['data'],
+				useCache: [true],
+			},
+		},
+	},
+	{
+		displayName: 'Max Cache Size (MB)',
+		name: 'cacheMaxSize',
+		type: 'number',
+		typeOptions: {
+			minValue: 0,
+		},
+		default: 10,
+		description: 'The oldest responses are removed once the cache grows past this size',
+		displayOptions: {
+			show: {
+				resource: ['webUnlocker'],
+				operation: ['request'],
+				responseType: ['data'],
+				useCache: [true],
+			},
+		},
+	},
 ];
 
 export const webUnlockerFields: INodeProperties[] = [...webUnlockerParameters];
@@ -0,0 +1,64 @@
+import { IExecuteFunctions, INodeListSearchItems } from 'n8n-workflow';
+
+import { ActiveZone, getActiveZoneList } from './GenericFunctions';
+
+// Zone types accepted by the `/request` endpoint for each operation sent through it
+const zoneTypesByOperation: { [operation: string]: string[] } = {
+	crawl: ['unblocker'],
+	request: ['unblocker'],
+	sitemap: ['unblocker'],
+	WebSearch: ['serp'],
+};
+
+const operationNames: { [operation: string]: string } = {
+	crawl: 'Crawl',
+	request: 'Send a Request',
+	sitemap: 'Get Sitemap URLs',
+	WebSearch: 'Web Search',
+};
+
+export function isZoneTypeSupported(operation: string, zoneType: string): boolean {
+	const zoneTypes = zoneTypesByOperation[operation];
+	return !zoneTypes || zoneTypes.includes(zoneType);
+}
+
+/**
+ * Returns why the zone cannot be used for the operation, or `undefined` when it can.
+ */
+export function getZoneTypeError(
+	operation: string,
+	zone: string,
+	zoneType: string | undefined,
+): string | undefined {
+	if (zoneType === undefined || isZoneTypeSupported(operation, zoneType)) {
+		return undefined;
+	}
+
+	const expected = zoneTypesByOperation[operation].join(' or ');
+	return `Zone "${zone}" has type ${zoneType}, but ${operationNames[operation]} needs a zone of type ${expected}`;
+}
+
+/**
+ * Lists the zones usable by the operation, with their type next to their name.
+ */
+export function formatZoneResults(zones: ActiveZone[], operation?: string): INodeListSearchItems[] {
+	return zones
+		.filter((zone) => !operation || isZoneTypeSupported(operation, zone.type))
+		.map((zone) => ({
+			name: `${zone.name} (${zone.type})`,
+			value: zone.name,
+			type: zone.type,
+		}));
+}
+
+/**
+ * Maps the active zones to their type. The zone check is skipped when they cannot be listed.
+ */
+export async function getActiveZoneTypes(this: IExecuteFunctions): Promise<Map<string, string>> {
+	try {
+		const zones = await getActiveZoneList.call(this);
+		return new Map(zones.map((zone) => [zone.name, zone.type]));
+	} catch {
+		return new Map();
+	}
+}